@@ -0,0 +1,55 @@
+// Evaluate question/thesis/method extraction against a golden set and compare prompt
+// versions or models:
+//
+//   npm run eval                                    active prompt, configured model
+//   npm run eval -- --prompt 1 --prompt 3           two extraction prompt versions
+//   npm run eval -- --model gpt-5.2 --model gpt-5-mini
+//   npm run eval -- --golden my-set.json --no-judge --out results.json
+//
+// Prompt versions and models combine, so two of each run four variants.
+import { writeFile } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import { db } from '@/lib/db'
+import { evaluateVariant, formatComparison, loadGoldenSet, resolveVariants, type EvalRun } from '@/lib/extraction-eval'
+
+const DEFAULT_GOLDEN = path.join('fixtures', 'eval', 'extraction-golden.json')
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      golden: { type: 'string', default: DEFAULT_GOLDEN },
+      prompt: { type: 'string', multiple: true, default: [] },
+      model: { type: 'string', multiple: true, default: [] },
+      'no-judge': { type: 'boolean', default: false },
+      out: { type: 'string' },
+    },
+  })
+
+  const versions = values.prompt!.map(v => Number(v.replace(/^v/, '')))
+  const invalid = values.prompt!.find((_, i) => !Number.isInteger(versions[i]) || versions[i] < 1)
+  if (invalid) throw new Error(`--prompt takes a version number, got "${invalid}"`)
+
+  const set = await loadGoldenSet(values.golden!)
+  const variants = await resolveVariants(versions, values.model!)
+  console.log(`Evaluating ${variants.length} variant(s) on ${set.length} papers from ${values.golden}`)
+
+  const runs: EvalRun[] = []
+  for (const variant of variants) {
+    console.log(`\n=== ${variant.label}`)
+    runs.push(await evaluateVariant(variant, set, { judge: !values['no-judge'] }))
+  }
+
+  console.log(`\n${formatComparison(runs)}`)
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify({ golden: values.golden, runs }, null, 2))
+    console.log(`\nWrote ${values.out}`)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Evaluation failed:', (error as Error).message)
+    process.exitCode = 1
+  })
+  .finally(() => db.$disconnect())
@@ -1,5 +1,6 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { startIngestScheduler } from '@/lib/scheduler';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -46,6 +47,9 @@ async function createCustomServer() {
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
       console.log(`> Socket.IO server running at ws://${hostname}:${currentPort}/api/socketio`);
+
+      // Harvest, filter and extract papers in the background so /api/papers only reads prepared cards
+      startIngestScheduler();
     });
 
   } catch (err) {
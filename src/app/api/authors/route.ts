@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authorKey, authorKeysField } from '@/lib/authors'
+
+// How many of each author's stored papers to list
+const PAPERS_PER_AUTHOR = 50
+
+
+// Papers stored before author keys existed get them on the first lookup
+async function keyUnkeyedPapers() {
+  const rows = await db.paper.findMany({ where: { authorKeys: '' }, select: { id: true, authors: true } })
+  if (rows.length === 0) return
+  await db.$transaction(rows.map(row => db.paper.update({
+    where: { id: row.id },
+    data: { authorKeys: authorKeysField(JSON.parse(row.authors) as string[]) },
+  })))
+}
+
+// Followed authors, each with the papers by them already in the store, newest first.
+// With `keys=1`, only the authors' names and keys.
+export async function GET(request: NextRequest) {
+  try {
+    const authors = await db.followedAuthor.findMany({ orderBy: { name: 'asc' } })
+    if (request.nextUrl.searchParams.get('keys')) {
+      return NextResponse.json({ authors: authors.map(a => ({ key: a.key, name: a.name })) })
+    }
+
+    if (authors.length > 0) await keyUnkeyedPapers()
+    const withPapers = await Promise.all(authors.map(async author => {
+      // Match on the stored keys, so accents and punctuation don't matter on either side
+      const rows = await db.paper.findMany({
+        where: { authorKeys: { contains: `|${author.key}|` } },
+        orderBy: { publishedAt: 'desc' },
+        take: PAPERS_PER_AUTHOR,
+        select: { id: true, source: true, title: true, url: true, publishedAt: true, relevant: true },
+      })
+      const papers = rows.map(row => ({
+        id: row.id,
+        source: row.source,
+        title: row.title,
+        url: row.url,
+        publishedAt: row.publishedAt.toISOString(),
+        inFeed: row.relevant === true,
+      }))
+      return { key: author.key, name: author.name, followedAt: author.createdAt.toISOString(), papers }
+    }))
+
+    return NextResponse.json({ authors: withPapers })
+  } catch (error) {
+    console.error('Error fetching followed authors:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch followed authors' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Follow an author by name
+export async function POST(request: NextRequest) {
+  try {
+    const { name } = await request.json()
+    const key = typeof name === 'string' ? authorKey(name) : ''
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'An author name is required' },
+        { status: 400 }
+      )
+    }
+
+    const author = await db.followedAuthor.upsert({
+      where: { key },
+      update: {},
+      create: { key, name: name.trim() },
+    })
+    return NextResponse.json({ author: { key: author.key, name: author.name } })
+  } catch (error) {
+    console.error('Error following author:', error)
+    return NextResponse.json(
+      { error: 'Failed to follow author' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const key = request.nextUrl.searchParams.get('key')
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'key is required' },
+        { status: 400 }
+      )
+    }
+
+    await db.followedAuthor.deleteMany({ where: { key } })
+    return NextResponse.json({ removed: key })
+  } catch (error) {
+    console.error('Error unfollowing author:', error)
+    return NextResponse.json(
+      { error: 'Failed to unfollow author' },
+      { status: 500 }
+    )
+  }
+}
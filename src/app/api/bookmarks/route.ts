@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+
+
+// Bookmark a paper, or with `paperIds` replace the whole set with the client's local
+// bookmarks, dropping rows for papers it no longer has
+export async function PUT(request: NextRequest) {
+  try {
+    const { paperId, paperIds } = await request.json()
+    const sync = Array.isArray(paperIds)
+    const ids: string[] = sync ? paperIds : (paperId ? [paperId] : [])
+
+    if (!sync && ids.length === 0) {
+      return NextResponse.json(
+        { error: 'paperId or paperIds is required' },
+        { status: 400 }
+      )
+    }
+
+    await db.$transaction([
+      ...(sync ? [db.bookmark.deleteMany({ where: { paperId: { notIn: ids } } })] : []),
+      ...ids.map(id => db.bookmark.upsert({
+        where: { paperId: id },
+        update: {},
+        create: { paperId: id },
+      })),
+    ])
+
+    return NextResponse.json({ bookmarked: ids })
+  } catch (error) {
+    console.error('Error saving bookmark:', error)
+    return NextResponse.json(
+      { error: 'Failed to save bookmark' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const paperId = request.nextUrl.searchParams.get('paperId')
+
+    if (!paperId) {
+      return NextResponse.json(
+        { error: 'paperId is required' },
+        { status: 400 }
+      )
+    }
+
+    await db.bookmark.deleteMany({ where: { paperId } })
+    return NextResponse.json({ removed: paperId })
+  } catch (error) {
+    console.error('Error removing bookmark:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove bookmark' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function GET() {
+  try {
+    const bookmarks = await db.bookmark.findMany({
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ bookmarks })
+  } catch (error) {
+    console.error('Error fetching bookmarks:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch bookmarks' },
+      { status: 500 }
+    )
+  }
+}
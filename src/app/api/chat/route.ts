@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { complete, type LLMMessage } from '@/lib/llm'
+import { getActivePrompt, renderPrompt } from '@/lib/prompts'
 
 
 export async function POST(request: NextRequest) {
   try {
     const {
-      title, abstract, content, question, thesis, method,
+      paperId, title, abstract, content, question, thesis, method,
       thesisGuess, methodGuess, feedback,
       mode, stage,
       messages,
     } = await request.json()
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-
     // Build paper context
     const paperContext = [
       `Title: ${title}`,
@@ -20,22 +19,11 @@ export async function POST(request: NextRequest) {
       content ? `\nPaper Content (excerpts):\n${content}` : '',
     ].filter(Boolean).join('\n')
 
-    let systemPrompt: string
+    let system: LLMMessage[]
 
     if (mode === 'active' && (stage === 1 || stage === 2)) {
       // Pre-guess: help them think without spoiling the answer
-      systemPrompt = `You're discussing a research paper with an ML researcher who is practicing their scientific thinking. They are trying to guess the paper's thesis and method on their own.
-
-IMPORTANT: Do NOT reveal the paper's thesis, method, or key results. Help them think through the problem, clarify the question being asked, and reason about possible approaches — but let them discover the answer themselves.
-
-Paper context:
-${paperContext}
-
-The question being explored: ${question}
-
-Keep responses concise (2-4 sentences). Be a helpful thinking partner, not an answer key.
-
-When writing math, always use dollar-sign delimiters: $x$ for inline math, $$x$$ for display math. Never use \\( \\) or \\[ \\] delimiters. Use standard markdown for code blocks (\`\`\`python etc).`
+      system = renderPrompt(await getActivePrompt('chat-guessing'), { paperContext, question })
     } else {
       // Post-feedback or passive: discuss freely
       const fullContext = [
@@ -55,28 +43,20 @@ When writing math, always use dollar-sign delimiters: $x$ for inline math, $$x$$
         fullContext.push(`Overall feedback: ${feedback.overall || ''}`)
       }
 
-      systemPrompt = `You're discussing a research paper with an ML researcher. Answer their questions, explore implications, debate ideas, and help them think deeply about the work. Be concise but substantive (2-4 sentences unless they ask for more detail).
-
-When writing math, always use dollar-sign delimiters: $x$ for inline math, $$x$$ for display math. Never use \\( \\) or \\[ \\] delimiters. Use standard markdown for code blocks (\`\`\`python etc).
-
-${fullContext.join('\n')}`
+      system = renderPrompt(await getActivePrompt('chat'), { context: fullContext.join('\n') })
     }
 
-    const input = [
-      { role: 'system' as const, content: systemPrompt },
+    const input: LLMMessage[] = [
+      ...system,
       ...messages.map((m: { role: string; content: string }) => ({
         role: m.role as 'user' | 'assistant',
         content: m.content,
       })),
     ]
 
-    const response = await openai.responses.create({
-      model: 'gpt-5.2',
-      input,
-      text: { verbosity: 'low' },
-    })
+    const response = await complete('chat', input, undefined, { route: '/api/chat', paperIds: paperId ? [paperId] : undefined })
 
-    return NextResponse.json({ response: response.output_text })
+    return NextResponse.json({ response: response.text })
   } catch (error) {
     console.error('Error in chat API:', error)
     return NextResponse.json(
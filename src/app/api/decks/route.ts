@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+
+
+// List decks with how many papers each holds, most recently added to first
+export async function GET() {
+  try {
+    const groups = await db.deckPaper.groupBy({
+      by: ['deck'],
+      _count: { paperId: true },
+      _max: { addedAt: true },
+    })
+
+    const decks = groups
+      .map(g => ({ name: g.deck, count: g._count.paperId, updatedAt: g._max.addedAt }))
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0))
+
+    return NextResponse.json({ decks })
+  } catch (error) {
+    console.error('Error fetching decks:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch decks' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Take a paper out of a deck, or with no `paperId` delete the whole deck. Deck papers
+// count as tracked for revisions, so this is how they stop being tracked.
+export async function DELETE(request: NextRequest) {
+  try {
+    const deck = request.nextUrl.searchParams.get('deck')
+    const paperId = request.nextUrl.searchParams.get('paperId')
+
+    if (!deck) {
+      return NextResponse.json(
+        { error: 'deck is required' },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await db.deckPaper.deleteMany({ where: { deck, ...(paperId ? { paperId } : {}) } })
+    return NextResponse.json({ deck, paperId, removed: count })
+  } catch (error) {
+    console.error('Error removing from deck:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove from deck' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TOPIC_TAGS } from '@/lib/pipeline'
+import { getFeedMix, MAX_EXPLORATION, saveFeedMix, validateFeedMix, type FeedMix, type TagQuota } from '@/lib/feed-mix'
+
+
+// Keep only the bounds that were given, as numbers
+function parseMix(body: any): FeedMix {
+  const quotas: Record<string, TagQuota> = {}
+  for (const [tag, quota] of Object.entries<any>(body.quotas || {})) {
+    const bound = (value: unknown) => value === null || value === undefined || value === '' ? undefined : Number(value)
+    const parsed = { min: bound(quota?.min), max: bound(quota?.max) }
+    if (parsed.min !== undefined || parsed.max !== undefined) quotas[tag] = parsed
+  }
+  return { quotas, exploration: Number(body.exploration ?? 0) }
+}
+
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      mix: await getFeedMix(),
+      tags: TOPIC_TAGS,
+      maxExploration: MAX_EXPLORATION,
+    })
+  } catch (error) {
+    console.error('Error fetching feed mix:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch feed mix' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function PUT(request: NextRequest) {
+  try {
+    const mix = parseMix(await request.json())
+
+    const invalid = validateFeedMix(mix, TOPIC_TAGS)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    return NextResponse.json({ mix: await saveFeedMix(mix) })
+  } catch (error) {
+    console.error('Error saving feed mix:', error)
+    return NextResponse.json(
+      { error: 'Failed to save feed mix' },
+      { status: 500 }
+    )
+  }
+}
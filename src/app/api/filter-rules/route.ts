@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { toFilterRule, validateFilterRule, type FilterRule } from '@/lib/filter-rules'
+
+
+function parseRule(body: any): FilterRule {
+  return {
+    field: body.field,
+    match: body.match,
+    pattern: String(body.pattern || '').trim(),
+    action: body.action,
+    enabled: body.enabled !== false,
+  }
+}
+
+// FilterRule columns for a parsed rule
+function ruleColumns(rule: FilterRule) {
+  return {
+    field: rule.field,
+    match: rule.match,
+    pattern: rule.pattern,
+    action: rule.action,
+    enabled: rule.enabled,
+  }
+}
+
+
+export async function GET() {
+  try {
+    const rows = await db.filterRule.findMany({ orderBy: { createdAt: 'asc' } })
+    return NextResponse.json({ rules: rows.map(toFilterRule) })
+  } catch (error) {
+    console.error('Error fetching filter rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch filter rules' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function POST(request: NextRequest) {
+  try {
+    const rule = parseRule(await request.json())
+
+    const invalid = validateFilterRule(rule)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const row = await db.filterRule.create({ data: ruleColumns(rule) })
+    return NextResponse.json({ rule: toFilterRule(row) })
+  } catch (error) {
+    console.error('Error creating filter rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to create filter rule' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Editing a rule's match resets its hit count; toggling `enabled` keeps it
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 })
+    }
+
+    const rule = parseRule(body)
+    const invalid = validateFilterRule(rule)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const existing = await db.filterRule.findUniqueOrThrow({ where: { id: body.id } })
+    const changed = existing.field !== rule.field || existing.match !== rule.match
+      || existing.pattern !== rule.pattern || existing.action !== rule.action
+    const row = await db.filterRule.update({
+      where: { id: body.id },
+      data: { ...ruleColumns(rule), ...(changed && { hits: 0, lastHitAt: null }) },
+    })
+
+    return NextResponse.json({ rule: toFilterRule(row) })
+  } catch (error) {
+    console.error('Error updating filter rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update filter rule' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 })
+    }
+
+    await db.filterRule.delete({ where: { id } })
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    console.error('Error deleting filter rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete filter rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { canonicalPaperId, parseQualifiedId } from '@/lib/sources'
 
 
 const VALID_GRADES = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F']
 
+// Grades saved before IDs were source-qualified are keyed by the bare arXiv ID
+function storedIds(paperId: string): string[] {
+  const id = canonicalPaperId(paperId)
+  const { source, externalId } = parseQualifiedId(id)
+  return source === 'arxiv' ? [id, externalId] : [id]
+}
+
 export async function PUT(request: NextRequest) {
   try {
     const { paperId, grade } = await request.json()
@@ -15,10 +23,13 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // Regrading a paper moves its grade from a legacy row to the qualified ID
+    const [id, ...legacy] = storedIds(paperId)
+    if (legacy.length > 0) await db.paperGrade.deleteMany({ where: { paperId: { in: legacy } } })
     const result = await db.paperGrade.upsert({
-      where: { paperId },
+      where: { paperId: id },
       update: { grade },
-      create: { paperId, grade },
+      create: { paperId: id, grade },
     })
 
     return NextResponse.json({ id: result.id, grade: result.grade })
@@ -37,14 +48,23 @@ export async function GET(request: NextRequest) {
     const paperId = request.nextUrl.searchParams.get('paperId')
 
     if (paperId) {
-      const grade = await db.paperGrade.findUnique({ where: { paperId } })
+      const grade = await db.paperGrade.findFirst({
+        where: { paperId: { in: storedIds(paperId) } },
+        orderBy: { updatedAt: 'desc' },
+      })
       return NextResponse.json({ grade: grade?.grade || null })
     }
 
-    const grades = await db.paperGrade.findMany({
+    const rows = await db.paperGrade.findMany({
       orderBy: { updatedAt: 'desc' },
     })
 
+    // Every grade under its qualified ID; where a paper has both kinds of row, the newer wins
+    const seen = new Set<string>()
+    const grades = rows
+      .map(row => ({ ...row, paperId: canonicalPaperId(row.paperId) }))
+      .filter(row => !seen.has(row.paperId) && seen.add(row.paperId))
+
     return NextResponse.json({ grades })
   } catch (error) {
     console.error('Error fetching grades:', error)
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getExtractionQueueStatus } from '@/lib/pipeline'
+import { isIngestRunning, triggerIngestRun } from '@/lib/scheduler'
+
+
+// Start an ingestion run now. Responds immediately; poll GET for the result.
+export async function POST() {
+  try {
+    const alreadyRunning = isIngestRunning()
+    const run = triggerIngestRun('manual')
+    run.catch(err => console.error('Manual ingestion failed:', err))
+
+    return NextResponse.json({ started: !alreadyRunning, running: true }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting ingestion:', error)
+    return NextResponse.json(
+      { error: 'Failed to start ingestion' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '20')
+
+    const runs = await db.ingestRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    })
+
+    // Which interest profile version each run's filter used
+    const versions = await db.interestProfileVersion.findMany({
+      where: { id: { in: runs.map(run => run.interestVersionId).filter((id): id is string => !!id) } },
+      include: { profile: { select: { name: true } } },
+    })
+    const interestsFor = (versionId: string | null) => {
+      const version = versions.find(v => v.id === versionId)
+      return version ? { profileName: version.profile.name, version: version.version } : null
+    }
+
+    return NextResponse.json({
+      running: isIngestRunning(),
+      extraction: await getExtractionQueueStatus(),
+      runs: runs.map(run => ({ ...run, errors: JSON.parse(run.errors), interests: interestsFor(run.interestVersionId) })),
+    })
+  } catch (error) {
+    console.error('Error fetching ingestion runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch ingestion runs' },
+      { status: 500 }
+    )
+  }
+}
@@ -19,6 +19,7 @@ export async function POST(request: NextRequest) {
         thesisFeedback: body.thesisFeedback || null,
         methodFeedback: body.methodFeedback || null,
         overallFeedback: body.overallFeedback || null,
+        promptVersionId: body.promptVersionId || null,
       },
     })
 
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getActiveInterests, saveInterestVersion, toInterestProfileView } from '@/lib/interest-profiles'
+
+const withVersions = { versions: { orderBy: { version: 'desc' as const } } }
+
+
+export async function GET() {
+  try {
+    // Seeds the default profile on first use
+    const active = await getActiveInterests()
+    const rows = await db.interestProfile.findMany({ orderBy: { createdAt: 'asc' }, include: withVersions })
+
+    return NextResponse.json({
+      profiles: rows.map(toInterestProfileView),
+      active,
+    })
+  } catch (error) {
+    console.error('Error fetching interest profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch interest profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const name = String(body.name || '').trim()
+    const content = String(body.content || '').trim()
+    if (!name || !content) {
+      return NextResponse.json({ error: 'Name and content are required' }, { status: 400 })
+    }
+
+    const row = await db.$transaction(async tx => {
+      if (body.active) await tx.interestProfile.updateMany({ data: { active: false } })
+      return tx.interestProfile.create({
+        data: { name, active: !!body.active, versions: { create: { version: 1, content } } },
+        include: withVersions,
+      })
+    })
+
+    return NextResponse.json({ profile: toInterestProfileView(row) })
+  } catch (error) {
+    console.error('Error creating interest profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create interest profile' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Rename, (de)activate, or edit a profile. Changed content is stored as a new version;
+// earlier versions are never modified. With `baseVersion`, the edit is rejected if the
+// profile has moved on since that version.
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+    const name = body.name === undefined ? undefined : String(body.name).trim()
+    const content = body.content === undefined ? undefined : String(body.content).trim()
+    if (name === '' || content === '') {
+      return NextResponse.json({ error: 'Name and content cannot be empty' }, { status: 400 })
+    }
+
+    // Edits based on an older version (e.g. an accepted tuning proposal) must not
+    // silently overwrite a newer one
+    if (content !== undefined && body.baseVersion !== undefined) {
+      const latest = await db.interestProfileVersion.findFirst({ where: { profileId: body.id }, orderBy: { version: 'desc' } })
+      if (latest && latest.version !== body.baseVersion) {
+        return NextResponse.json(
+          { error: `The profile has changed since v${body.baseVersion}; it is now v${latest.version}` },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Activating a profile deactivates every other one
+    await db.$transaction(async tx => {
+      if (body.active) await tx.interestProfile.updateMany({ data: { active: false } })
+      await tx.interestProfile.update({
+        where: { id: body.id },
+        data: { name, active: body.active === undefined ? undefined : !!body.active },
+      })
+    })
+    if (content !== undefined) await saveInterestVersion(body.id, content)
+
+    const row = await db.interestProfile.findUniqueOrThrow({ where: { id: body.id }, include: withVersions })
+    return NextResponse.json({ profile: toInterestProfileView(row) })
+  } catch (error) {
+    console.error('Error updating interest profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update interest profile' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Profiles whose versions have judged papers are kept, so every judgment stays traceable
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const versionIds = (await db.interestProfileVersion.findMany({ where: { profileId: id }, select: { id: true } }))
+      .map(v => v.id)
+    const used = await db.paper.count({ where: { interestVersionId: { in: versionIds } } })
+      + await db.ingestRun.count({ where: { interestVersionId: { in: versionIds } } })
+    if (used > 0) {
+      return NextResponse.json(
+        { error: 'This profile has selected papers and can only be deactivated' },
+        { status: 409 }
+      )
+    }
+
+    await db.interestProfile.delete({ where: { id } })
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    console.error('Error deleting interest profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete interest profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { collectTuningEvidence, MIN_TUNING_SIGNALS, proposeInterestUpdate } from '@/lib/profile-tuning'
+
+
+// Propose edits to the active interest profile from recent grades and bookmarks.
+// Nothing is saved: the client applies the lines it accepts with PUT /api/interest-profiles.
+export async function POST() {
+  try {
+    const evidence = await collectTuningEvidence()
+    if (evidence.length < MIN_TUNING_SIGNALS) {
+      return NextResponse.json(
+        { error: `Grade or bookmark at least ${MIN_TUNING_SIGNALS} papers first` },
+        { status: 400 }
+      )
+    }
+
+    const proposal = await proposeInterestUpdate(evidence)
+    return NextResponse.json({ proposal })
+  } catch (error) {
+    console.error('Error proposing interest profile update:', error)
+    return NextResponse.json(
+      { error: 'Failed to propose an update' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LLM_TASKS } from '@/lib/llm/types'
+import {
+  DEFAULT_BASE_URL,
+  DEFAULT_MODELS,
+  LLM_PROVIDERS,
+  getLLMConfig,
+  saveLLMConfig,
+  usingMockLLM,
+  validateLLMConfig,
+  type LLMConfig,
+} from '@/lib/llm/settings'
+
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      config: await getLLMConfig(),
+      providers: LLM_PROVIDERS,
+      tasks: LLM_TASKS,
+      defaultModels: DEFAULT_MODELS,
+      defaultBaseURL: DEFAULT_BASE_URL,
+      mock: usingMockLLM(),
+    })
+  } catch (error) {
+    console.error('Error fetching LLM settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM settings' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const config: LLMConfig = {
+      provider: body.provider,
+      baseURL: body.baseURL?.trim() || undefined,
+      models: Object.fromEntries(LLM_TASKS.map(task => [task, String(body.models?.[task] ?? '').trim()])) as LLMConfig['models'],
+    }
+
+    const invalid = validateLLMConfig(config)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    return NextResponse.json({ config: await saveLLMConfig(config) })
+  } catch (error) {
+    console.error('Error saving LLM settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save LLM settings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaperSource, parseQualifiedId } from '@/lib/sources'
+
+// Full text for the back of a card. The ID is source-qualified and may contain
+// slashes (bioRxiv DOIs), so it's passed as ?id= rather than in the path.
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Paper ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { source: sourceName, externalId } = parseQualifiedId(id)
+    let source
+    try {
+      source = getPaperSource(sourceName)
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+    }
+
+    const text = await source.fetchFullText(externalId)
+
+    // If extraction fails, return a more informative message
+    const content = text || `Full paper content extraction is currently unavailable for this paper.\n\nPaper ID: ${externalId}\n\nThe automatic text extraction encountered issues. Please use the ${source.label} link to view the full paper directly.`
+
+    return NextResponse.json({
+      id,
+      content,
+      hasContent: content.length > 0
+    })
+  } catch (error) {
+    console.error('Error in paper content API:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch paper content' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importPapers, MAX_IMPORT } from '@/lib/pipeline'
+
+
+// Import papers by arXiv ID or URL, DOI, or other source URL. `inputs` is a list or
+// pasted text (split on whitespace and commas). With `deck`, the cards go into that
+// deck; otherwise they go to the front of the feed. Waits for extraction to finish.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const inputs: string[] = (Array.isArray(body.inputs) ? body.inputs : String(body.inputs || '').split(/[\s,]+/))
+      .map((input: unknown) => String(input).trim())
+      .filter(Boolean)
+    const deck = typeof body.deck === 'string' && body.deck.trim() ? body.deck.trim() : undefined
+
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one paper ID, URL, or DOI is required' },
+        { status: 400 }
+      )
+    }
+    if (inputs.length > MAX_IMPORT) {
+      return NextResponse.json(
+        { error: `At most ${MAX_IMPORT} papers can be imported at once` },
+        { status: 400 }
+      )
+    }
+
+    const result = await importPapers([...new Set(inputs)], deck)
+    return NextResponse.json({ ...result, deck: deck ?? null })
+  } catch (error) {
+    console.error('Error importing papers:', error)
+    return NextResponse.json(
+      { error: 'Failed to import papers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { rescuePaper } from '@/lib/pipeline'
+import { labelFilterExample } from '@/lib/filter-examples'
+
+
+// Papers the filter judged not relevant on one UTC day (`date`, YYYY-MM-DD, default today),
+// closest to what the user liked first, with any reason recorded and whether the user has
+// already confirmed the rejection
+export async function GET(request: NextRequest) {
+  try {
+    const date = request.nextUrl.searchParams.get('date') || new Date().toISOString().slice(0, 10)
+    const from = new Date(`${date}T00:00:00.000Z`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(from.getTime())) {
+      return NextResponse.json(
+        { error: 'date must be formatted YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+    const to = new Date(from.getTime() + 24 * 60 * 60 * 1000)
+
+    const rows = await db.paper.findMany({
+      where: { relevant: false, judgedAt: { gte: from, lt: to } },
+      orderBy: [{ similarity: { sort: 'desc', nulls: 'last' } }, { publishedAt: 'desc' }],
+      include: { example: true },
+    })
+
+    const papers = rows.map(row => ({
+      id: row.id,
+      source: row.source,
+      title: row.title,
+      authors: JSON.parse(row.authors),
+      abstract: row.abstract,
+      url: row.url,
+      publishedAt: row.publishedAt.toISOString(),
+      judgedAt: row.judgedAt?.toISOString(),
+      similarity: row.similarity ?? undefined,
+      reason: row.rejectionReason ?? undefined,
+      confirmed: row.example?.relevant === false,
+    }))
+
+    return NextResponse.json({ date, papers })
+  } catch (error) {
+    console.error('Error fetching rejected papers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch rejected papers' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Label a rejected paper: `rescue` moves it to the front of the feed, `reject` confirms
+// the filter was right. Either way it becomes a few-shot example for later runs.
+export async function POST(request: NextRequest) {
+  try {
+    const { id, action } = await request.json()
+
+    if (!id || (action !== 'rescue' && action !== 'reject')) {
+      return NextResponse.json(
+        { error: 'id and an action of "rescue" or "reject" are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await db.paper.findUnique({ where: { id } }))) {
+      return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+    }
+
+    if (action === 'reject') {
+      await labelFilterExample(id, false)
+      return NextResponse.json({ id, confirmed: true })
+    }
+
+    const { paper, error } = await rescuePaper(id)
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 })
+    }
+    await labelFilterExample(id, true)
+    return NextResponse.json({ id, paper })
+  } catch (error) {
+    console.error('Error labeling rejected paper:', error)
+    return NextResponse.json(
+      { error: 'Failed to label paper' },
+      { status: 500 }
+    )
+  }
+}
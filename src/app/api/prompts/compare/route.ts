@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { compareExtractionPrompts } from '@/lib/pipeline'
+
+const RECENT_PAPERS = 20
+
+
+// Recently extracted papers to compare prompts on
+export async function GET() {
+  try {
+    const papers = await db.paper.findMany({
+      where: { relevant: true, processedAt: { not: null } },
+      orderBy: { processedAt: 'desc' },
+      select: { id: true, title: true },
+      take: RECENT_PAPERS,
+    })
+
+    return NextResponse.json({ papers })
+  } catch (error) {
+    console.error('Error fetching papers to compare on:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch papers' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Run two extraction prompt versions on one paper; nothing is saved
+export async function POST(request: NextRequest) {
+  try {
+    const { paperId, versionIds } = await request.json()
+    if (!paperId || !Array.isArray(versionIds) || versionIds.length !== 2) {
+      return NextResponse.json({ error: 'A paper ID and two version IDs are required' }, { status: 400 })
+    }
+
+    const { paper, outputs, error } = await compareExtractionPrompts(paperId, versionIds)
+    if (error) {
+      return NextResponse.json({ error }, { status: error === 'Paper not found' ? 404 : 400 })
+    }
+
+    return NextResponse.json({ paper: { id: paper!.id, title: paper!.title }, outputs })
+  } catch (error) {
+    console.error('Error comparing prompts:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare prompts' },
+      { status: 500 }
+    )
+  }
+}
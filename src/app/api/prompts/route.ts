@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  PROMPT_NAMES,
+  activatePromptVersion,
+  listPrompts,
+  savePromptVersion,
+  validatePromptTemplate,
+  type PromptName,
+} from '@/lib/prompts'
+
+
+export async function GET() {
+  try {
+    // Seeds the built-in prompts on first use
+    return NextResponse.json({ prompts: await listPrompts() })
+  } catch (error) {
+    console.error('Error fetching prompts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompts' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Save an edited prompt as a new version. It isn't used until activated.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (!PROMPT_NAMES.includes(body.name)) {
+      return NextResponse.json({ error: `Unknown prompt: ${body.name}` }, { status: 400 })
+    }
+    const name = body.name as PromptName
+    const template = {
+      system: String(body.system ?? ''),
+      user: String(body.user ?? ''),
+      note: String(body.note ?? '').trim() || undefined,
+    }
+
+    const invalid = validatePromptTemplate(name, template)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const version = await savePromptVersion(name, template)
+    return NextResponse.json({ id: version.id, version: version.version })
+  } catch (error) {
+    console.error('Error saving prompt version:', error)
+    return NextResponse.json(
+      { error: 'Failed to save prompt version' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Activate a version; the prompt's other versions are deactivated
+export async function PUT(request: NextRequest) {
+  try {
+    const { id } = await request.json()
+    if (!id) {
+      return NextResponse.json({ error: 'Version ID is required' }, { status: 400 })
+    }
+
+    const version = await activatePromptVersion(id)
+    return NextResponse.json({ id: version.id, name: version.name, version: version.version })
+  } catch (error) {
+    console.error('Error activating prompt version:', error)
+    return NextResponse.json(
+      { error: 'Failed to activate prompt version' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { db } from '@/lib/db'
+import { complete } from '@/lib/llm'
+import { getActivePrompt, renderPrompt } from '@/lib/prompts'
 
 
 export async function POST(request: NextRequest) {
@@ -10,8 +12,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ report: 'No interactions to analyze.' })
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-
     const summary = interactions.map((i: any, idx: number) =>
       `[${idx + 1}] "${i.paperTitle}" (${i.paperTag || 'untagged'})
   Question: ${i.question}
@@ -22,28 +22,18 @@ export async function POST(request: NextRequest) {
   Feedback: ${i.overallFeedback || 'none'}`
     ).join('\n\n')
 
-    const response = await openai.responses.create({
-      model: 'gpt-5.2',
-      input: [
-        {
-          role: 'system',
-          content: `You are analyzing a researcher's practice sessions where they guess the thesis and method of ML papers before seeing the real answers. Provide a concise, specific analysis — not generic encouragement. Use concrete examples from their actual guesses.`
-        },
-        {
-          role: 'user',
-          content: `Here are my ${interactions.length} most recent paper exercises:\n\n${summary}\n\nAnalyze my patterns across these sessions:
-1. Which subfields do I predict well vs poorly?
-2. What recurring mental models or assumptions show up in my guesses?
-3. What types of approaches do I consistently miss or underweight?
-4. Any improvement trajectory visible over time?
+    const prompt = await getActivePrompt('report')
+    const response = await complete('report', renderPrompt(prompt, {
+      count: interactions.length,
+      summary,
+    }), undefined, { route: '/api/report' })
 
-Be specific — reference particular papers and guesses. Keep it to 3-4 short paragraphs.`
-        }
-      ],
-      text: { verbosity: 'low' },
+    // Kept so each report can be traced to the prompt version that wrote it
+    await db.report.create({
+      data: { content: response.text, interactionCount: interactions.length, promptVersionId: prompt.versionId },
     })
 
-    return NextResponse.json({ report: response.output_text })
+    return NextResponse.json({ report: response.text, promptVersion: prompt.version })
   } catch (error) {
     console.error('Error generating report:', error)
     return NextResponse.json(
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import {
+  DEFAULT_SOURCE_CONFIG,
+  getActiveSourceConfig,
+  toSourceConfig,
+  validateSourceConfig,
+} from '@/lib/source-profiles'
+import type { SourceConfig } from '@/lib/sources/types'
+
+
+function parseConfig(body: any): SourceConfig {
+  const list = (value: unknown) =>
+    Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : []
+  return {
+    name: String(body.name || '').trim(),
+    categories: list(body.categories),
+    searchQueries: list(body.searchQueries),
+    excludedCategories: list(body.excludedCategories),
+    biorxivServers: list(body.biorxivServers).map(s => s.toLowerCase()),
+    biorxivCategories: list(body.biorxivCategories),
+    openreviewVenues: list(body.openreviewVenues),
+  }
+}
+
+// SourceProfile columns for a parsed config
+function configColumns(config: SourceConfig) {
+  return {
+    name: config.name,
+    categories: JSON.stringify(config.categories),
+    searchQueries: JSON.stringify(config.searchQueries),
+    excludedCategories: JSON.stringify(config.excludedCategories),
+    biorxivServers: JSON.stringify(config.biorxivServers),
+    biorxivCategories: JSON.stringify(config.biorxivCategories),
+    openreviewVenues: JSON.stringify(config.openreviewVenues),
+  }
+}
+
+
+export async function GET() {
+  try {
+    const rows = await db.sourceProfile.findMany({ orderBy: { createdAt: 'asc' } })
+
+    return NextResponse.json({
+      profiles: rows.map(row => ({ ...toSourceConfig(row), active: row.active })),
+      active: await getActiveSourceConfig(),
+      defaults: DEFAULT_SOURCE_CONFIG,
+    })
+  } catch (error) {
+    console.error('Error fetching source profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch source profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const config = parseConfig(body)
+
+    const invalid = validateSourceConfig(config)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const row = await db.$transaction(async tx => {
+      if (body.active) await tx.sourceProfile.updateMany({ data: { active: false } })
+      return tx.sourceProfile.create({
+        data: { ...configColumns(config), active: !!body.active },
+      })
+    })
+
+    return NextResponse.json({ profile: { ...toSourceConfig(row), active: row.active } })
+  } catch (error) {
+    console.error('Error creating source profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create source profile' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (!body.id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    const config = parseConfig(body)
+    const invalid = validateSourceConfig(config)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    // Activating a profile deactivates every other one
+    const row = await db.$transaction(async tx => {
+      if (body.active) await tx.sourceProfile.updateMany({ data: { active: false } })
+      return tx.sourceProfile.update({
+        where: { id: body.id },
+        data: { ...configColumns(config), active: !!body.active },
+      })
+    })
+
+    return NextResponse.json({ profile: { ...toSourceConfig(row), active: row.active } })
+  } catch (error) {
+    console.error('Error updating source profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update source profile' },
+      { status: 500 }
+    )
+  }
+}
+
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Profile ID is required' }, { status: 400 })
+    }
+
+    await db.sourceProfile.delete({ where: { id } })
+    return NextResponse.json({ deleted: id })
+  } catch (error) {
+    console.error('Error deleting source profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete source profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUsageSummary, saveDailyBudget } from '@/lib/llm/usage'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+
+export async function GET(request: NextRequest) {
+  try {
+    const days = parseInt(request.nextUrl.searchParams.get('days') || `${DEFAULT_DAYS}`)
+    if (!(days >= 1 && days <= MAX_DAYS)) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 })
+    }
+
+    return NextResponse.json(await getUsageSummary(days))
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM usage' },
+      { status: 500 }
+    )
+  }
+}
+
+
+// Set the daily budget in USD; null or empty removes it
+export async function PUT(request: NextRequest) {
+  try {
+    const { dailyBudget } = await request.json()
+    const limit = dailyBudget === null || dailyBudget === undefined || dailyBudget === '' ? null : Number(dailyBudget)
+    if (limit !== null && !(limit > 0)) {
+      return NextResponse.json({ error: 'The daily budget must be a positive amount' }, { status: 400 })
+    }
+
+    return NextResponse.json({ dailyBudget: await saveDailyBudget(limit) })
+  } catch (error) {
+    console.error('Error saving LLM budget:', error)
+    return NextResponse.json(
+      { error: 'Failed to save LLM budget' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, ExternalLink, Loader2, UserMinus, UserPlus } from 'lucide-react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface AuthorPaper {
+  id: string
+  source: string
+  title: string
+  url: string
+  publishedAt: string
+  inFeed: boolean
+}
+
+interface FollowedAuthor {
+  key: string
+  name: string
+  followedAt: string
+  papers: AuthorPaper[]
+}
+
+// Authors whose new papers skip the relevance filter, with their papers already stored
+export default function AuthorsPage() {
+  const [authors, setAuthors] = useState<FollowedAuthor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAuthors = async () => {
+    try {
+      const response = await fetch('/api/authors')
+      const data = await response.json()
+      setAuthors(data.authors || [])
+    } catch (err) {
+      console.error('Error loading followed authors:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAuthors()
+  }, [])
+
+  const follow = async () => {
+    if (!name.trim()) return
+    setAdding(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/authors', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to follow author')
+        return
+      }
+      setName('')
+      await loadAuthors()
+    } catch (err) {
+      console.error('Error following author:', err)
+      setError('Failed to follow author')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const unfollow = async (author: FollowedAuthor) => {
+    setAuthors(prev => prev.filter(a => a.key !== author.key))
+    try {
+      await fetch(`/api/authors?key=${encodeURIComponent(author.key)}`, { method: 'DELETE' })
+    } catch (err) {
+      console.error('Error unfollowing author:', err)
+      await loadAuthors()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Followed authors</h1>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          New papers by these authors skip the relevance filter and go straight to your feed.
+          Follow authors from the author list on the back of a card, or by name here.
+        </p>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && follow()}
+            placeholder="Author name"
+          />
+          <Button onClick={follow} disabled={adding || !name.trim()}>
+            {adding ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Follow
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : authors.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">You aren&apos;t following anyone yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {authors.map(author => (
+              <Card key={author.key}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-base">{author.name}</CardTitle>
+                  <Button variant="ghost" size="sm" onClick={() => unfollow(author)}>
+                    <UserMinus className="h-4 w-4 mr-1" />
+                    Unfollow
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  {author.papers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No papers by this author have been stored yet.</p>
+                  ) : (
+                    <div className="divide-y">
+                      {author.papers.map(paper => (
+                        <div key={paper.id} className="flex items-start justify-between gap-3 py-2">
+                          <div className="min-w-0">
+                            <p className="text-sm leading-snug">{paper.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(paper.publishedAt), 'MMM d, yyyy')}
+                              {paper.inFeed && ' · in your feed'}
+                            </p>
+                          </div>
+                          <a
+                            href={paper.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-muted-foreground hover:text-foreground shrink-0 mt-0.5"
+                            title="Open paper"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, ExternalLink, Loader2, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+interface RejectedPaper {
+  id: string
+  source: string
+  title: string
+  authors: string[]
+  abstract: string
+  url: string
+  publishedAt: string
+  judgedAt?: string
+  similarity?: number
+  reason?: string
+  confirmed: boolean
+}
+
+// Dates are UTC days, matching how the server buckets judgments
+const today = () => new Date().toISOString().slice(0, 10)
+const shiftDay = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+// The papers the filter dropped on a given day. Rescuing one moves it into the feed;
+// confirming a rejection agrees with the filter. Both teach the filter for later runs.
+export default function FilteredPage() {
+  const [date, setDate] = useState(today)
+  const [papers, setPapers] = useState<RejectedPaper[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pending, setPending] = useState<string | null>(null)
+  const [rescued, setRescued] = useState<Set<string>>(new Set())
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPapers = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/papers/rejected?date=${date}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load filtered-out papers')
+        return
+      }
+      setPapers(data.papers || [])
+      setRescued(new Set())
+    } catch (err) {
+      console.error('Error loading filtered-out papers:', err)
+      setError('Failed to load filtered-out papers')
+    } finally {
+      setLoading(false)
+    }
+  }, [date])
+
+  useEffect(() => {
+    loadPapers()
+  }, [loadPapers])
+
+  const label = async (paper: RejectedPaper, action: 'rescue' | 'reject') => {
+    setPending(paper.id)
+    setError(null)
+    try {
+      const response = await fetch('/api/papers/rejected', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: paper.id, action }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || `Failed to ${action} paper`)
+        return
+      }
+      if (action === 'rescue') {
+        setRescued(prev => new Set(prev).add(paper.id))
+      } else {
+        setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, confirmed: true } : p))
+      }
+    } catch (err) {
+      console.error(`Error labeling paper (${action}):`, err)
+      setError(`Failed to ${action} paper`)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold">Filtered out</h1>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setDate(shiftDay(date, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm tabular-nums w-24 text-center">{date === today() ? 'Today' : date}</span>
+            <Button variant="ghost" size="sm" onClick={() => setDate(shiftDay(date, 1))} disabled={date >= today()}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Papers the relevance filter dropped. Rescue one to add it to your feed, or confirm the
+          rejection. Each choice is shown to the filter as an example on later runs.
+        </p>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : papers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">Nothing was filtered out on this day.</p>
+        ) : (
+          <div className="space-y-3">
+            {papers.map(paper => {
+              const isRescued = rescued.has(paper.id)
+              return (
+                <Card key={paper.id} className={cn((isRescued || paper.confirmed) && "opacity-60")}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <button
+                        className="text-left font-medium leading-snug hover:underline"
+                        onClick={() => setExpanded(expanded === paper.id ? null : paper.id)}
+                      >
+                        {paper.title}
+                      </button>
+                      <a
+                        href={paper.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground shrink-0 mt-0.5"
+                        title="Open paper"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-1">{paper.authors.join(', ')}</p>
+                    {expanded === paper.id && <p className="text-sm text-muted-foreground">{paper.abstract}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {paper.reason || 'Not selected by the filter'}
+                      {paper.similarity !== undefined && ` · similarity ${paper.similarity.toFixed(2)}`}
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      {isRescued ? (
+                        <span className="text-xs text-muted-foreground">Added to your feed</span>
+                      ) : (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => label(paper, 'reject')}
+                            disabled={pending === paper.id || paper.confirmed}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            {paper.confirmed ? 'Rejection confirmed' : 'Confirm rejection'}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => label(paper, 'rescue')}
+                            disabled={pending === paper.id}
+                          >
+                            {pending === paper.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                            ) : (
+                              <Undo2 className="h-4 w-4 mr-1" />
+                            )}
+                            Rescue
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
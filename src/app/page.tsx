@@ -2,13 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRef } from 'react'
-import { ChevronUp, Bookmark, BookmarkCheck, Loader2, RefreshCw, MessageCircle, X, Copy, Check, Maximize2, Minimize2 } from 'lucide-react'
+import Link from 'next/link'
+import { ChevronUp, Bookmark, BookmarkCheck, Loader2, RefreshCw, MessageCircle, X, Copy, Check, Maximize2, Minimize2, Settings, CalendarDays, ChartColumn, Layers, ListX, SquareStack, UserCheck, UserPlus, Users } from 'lucide-react'
+import { format, parse } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card'
 import { cn } from '@/lib/utils'
+import { diffWords } from '@/lib/diff'
+import { authorKey } from '@/lib/authors'
 import ReactMarkdown from 'react-markdown'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
@@ -17,19 +25,57 @@ import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import 'katex/dist/katex.min.css'
 
 interface Paper {
-  id: string
+  id: string       // source-qualified, e.g. "arxiv:2401.12345"
+  source: string
+  externalId: string
+  version: number
   title: string
   authors: string[]
+  authorAffiliations: Record<string, string[]>
   abstract: string
-  arxivUrl: string
+  url: string
+  pdfUrl?: string
   publishedAt: string
+  updatedAt: string
+  primaryCategory?: string
+  categories: string[]
+  comment?: string
+  journalRef?: string
+  doi?: string
   tag?: string
   question?: string
   thesis?: string
   method?: string
+  relevance?: {
+    score?: number
+    interest?: string
+    rationale?: string
+    similarity?: number
+  }
+  related?: Paper[]   // closely related papers stacked under this one
+  explored?: boolean  // picked outside the interest profile
+  revision?: {
+    fromVersion: number
+    toVersion: number
+    previousTitle: string
+    previousAbstract: string
+    previousTag?: string
+    previousQuestion?: string
+    previousThesis?: string
+    previousMethod?: string
+    detectedAt: string
+    reextracting?: boolean
+  }
   content?: string
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  arxiv: 'arXiv',
+  biorxiv: 'bioRxiv',
+  medrxiv: 'medRxiv',
+  openreview: 'OpenReview',
+}
+
 interface BookmarkedPaper extends Paper {
   bookmarkedAt: string
 }
@@ -40,11 +86,31 @@ export default function Home() {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [isLoading, setIsLoading] = useState(true)
   const [isFlipped, setIsFlipped] = useState(false)
+  const [expandedCluster, setExpandedCluster] = useState<string | null>(null)
   const [showBookmarks, setShowBookmarks] = useState(false)
   const [loadingContent, setLoadingContent] = useState<string | null>(null)
   const [loadingMore, setLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(true)
 
+  // Date browsing: null shows the latest cards, otherwise a single day (YYYY-MM-DD)
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+  const [datePickerOpen, setDatePickerOpen] = useState(false)
+  const [backfilling, setBackfilling] = useState(false)
+  const dateQuery = selectedDate ? `&from=${selectedDate}&to=${selectedDate}` : ''
+
+  // Importing papers by ID/URL/DOI, and reading a named deck of them instead of the feed
+  const [selectedDeck, setSelectedDeck] = useState<string | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [importText, setImportText] = useState('')
+  const [importDeck, setImportDeck] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const [decks, setDecks] = useState<{ name: string; count: number }[]>([])
+  const feedQuery = selectedDeck ? `&deck=${encodeURIComponent(selectedDeck)}` : dateQuery
+
+  // Followed authors (authorKey → name as followed)
+  const [followedAuthors, setFollowedAuthors] = useState<Record<string, string>>({})
+
   // Mode state
   type Mode = 'passive' | 'active' | 'review'
   const [mode, setMode] = useState<Mode>('active')
@@ -95,6 +161,7 @@ export default function Home() {
   const [loadingInteractions, setLoadingInteractions] = useState(false)
   const [expandedInteraction, setExpandedInteraction] = useState<string | null>(null)
   const [report, setReport] = useState<string | null>(null)
+  const [reportPromptVersion, setReportPromptVersion] = useState<number | null>(null)
   const [loadingReport, setLoadingReport] = useState(false)
 
   // Fetch interactions when entering review mode
@@ -120,6 +187,7 @@ export default function Home() {
       if (response.ok) {
         const data = await response.json()
         setReport(data.report)
+        setReportPromptVersion(data.promptVersion ?? null)
       }
     } catch (error) {
       console.error('Error generating report:', error)
@@ -135,18 +203,60 @@ export default function Home() {
       currentPaper.thesis && `Thesis: ${currentPaper.thesis}`,
       currentPaper.method && `Method: ${currentPaper.method}`,
       `\n${currentPaper.title}`,
-      currentPaper.arxivUrl,
+      currentPaper.url,
     ].filter(Boolean)
     navigator.clipboard.writeText(parts.join('\n'))
     setCopied(true)
     setTimeout(() => setCopied(false), 1500)
   }
 
+  useEffect(() => {
+    fetch('/api/authors?keys=1')
+      .then(response => response.json())
+      .then(data => setFollowedAuthors(Object.fromEntries(
+        (data.authors || []).map((a: { key: string; name: string }) => [a.key, a.name])
+      )))
+      .catch(error => console.error('Error loading followed authors:', error))
+  }, [])
+
+  const toggleFollow = async (name: string) => {
+    const key = authorKey(name)
+    const following = key in followedAuthors
+    setFollowedAuthors(prev => {
+      const next = { ...prev }
+      if (following) delete next[key]
+      else next[key] = name
+      return next
+    })
+    try {
+      await (following
+        ? fetch(`/api/authors?key=${encodeURIComponent(key)}`, { method: 'DELETE' })
+        : fetch('/api/authors', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name }),
+          }))
+    } catch (error) {
+      console.error('Error updating followed authors:', error)
+    }
+  }
+
   // Load bookmarks from localStorage
   useEffect(() => {
     const savedBookmarks = localStorage.getItem('arxiv-bookmarks')
     if (savedBookmarks) {
-      setBookmarks(JSON.parse(savedBookmarks))
+      // Bookmarks saved before papers came from multiple sources are arXiv papers with bare IDs
+      const parsed: BookmarkedPaper[] = JSON.parse(savedBookmarks).map((b: BookmarkedPaper & { arxivUrl?: string }) =>
+        b.source ? b : { ...b, id: `arxiv:${b.id}`, source: 'arxiv', externalId: b.id, url: b.arxivUrl }
+      )
+      setBookmarks(parsed)
+
+      // Mirror bookmark IDs to the server so revision tracking can see them
+      fetch('/api/bookmarks', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paperIds: parsed.map(b => b.id) }),
+      }).catch(err => console.error('Error syncing bookmarks:', err))
     }
   }, [])
 
@@ -160,17 +270,110 @@ export default function Home() {
   const fetchPapers = useCallback(async () => {
     setIsLoading(true)
     try {
-      const response = await fetch('/api/papers?limit=3')
+      const response = await fetch(`/api/papers?limit=3${feedQuery}`)
       if (!response.ok) throw new Error('Failed to fetch papers')
       const data = await response.json()
       setPapers(data.papers || [])
       setHasMore((data.papers || []).length >= 3)
+      setBackfilling(!!data.backfilling)
     } catch (error) {
       console.error('Error fetching papers:', error)
+      setBackfilling(false)
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [feedQuery])
+
+  // While the server harvests a past day for the first time, poll until its cards are ready
+  useEffect(() => {
+    if (!backfilling) return
+    const timer = setTimeout(fetchPapers, 5000)
+    return () => clearTimeout(timer)
+  }, [backfilling, fetchPapers])
+
+  const selectDate = (date: string | null) => {
+    setSelectedDate(date)
+    setSelectedDeck(null)
+    setDatePickerOpen(false)
+    setCurrentIndex(0)
+    setIsFlipped(false)
+    setShowBookmarks(false)
+  }
+
+  const selectDeck = (deck: string | null) => {
+    setSelectedDeck(deck)
+    setSelectedDate(null)
+    setCurrentIndex(0)
+    setIsFlipped(false)
+    setShowBookmarks(false)
+  }
+
+  const loadDecks = async () => {
+    try {
+      const response = await fetch('/api/decks')
+      const data = await response.json()
+      setDecks(data.decks || [])
+    } catch (error) {
+      console.error('Error loading decks:', error)
+    }
+  }
+
+  const removeFromDeck = async (paper: Paper) => {
+    if (!selectedDeck) return
+    try {
+      const params = new URLSearchParams({ deck: selectedDeck, paperId: paper.id })
+      const response = await fetch(`/api/decks?${params}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to remove from deck')
+      setPapers(prev => prev.filter(p => p.id !== paper.id))
+      setCurrentIndex(i => Math.max(0, Math.min(i, papers.length - 2)))
+      setIsFlipped(false)
+      loadDecks()
+    } catch (error) {
+      console.error('Error removing from deck:', error)
+    }
+  }
+
+  // Import pasted IDs/URLs/DOIs. Without a deck the new cards go to the front of the latest feed.
+  const importPapers = async () => {
+    if (!importText.trim() || importing) return
+    setImporting(true)
+    setImportMessage(null)
+    try {
+      const response = await fetch('/api/papers/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputs: importText, deck: importDeck }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setImportMessage(data.error || 'Import failed')
+        return
+      }
+
+      const imported: Paper[] = data.papers
+      const failures = data.failed.map((f: { input: string; error: string }) => `${f.input}: ${f.error}`)
+      setImportMessage([`Imported ${imported.length} paper${imported.length === 1 ? '' : 's'}`, ...failures].join('\n'))
+      if (imported.length === 0) return
+
+      setImportText('')
+      if (data.deck) {
+        selectDeck(data.deck)
+        loadDecks()
+      } else if (selectedDeck || selectedDate) {
+        selectDate(null)
+      } else {
+        setPapers(prev => [...imported, ...prev.filter(p => !imported.some(i => i.id === p.id))])
+        setCurrentIndex(0)
+        setIsFlipped(false)
+        setShowBookmarks(false)
+      }
+    } catch (error) {
+      console.error('Error importing papers:', error)
+      setImportMessage('Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
 
   const fetchMorePapers = useCallback(async () => {
     if (loadingMore || !hasMore) return
@@ -178,7 +381,7 @@ export default function Home() {
     setLoadingMore(true)
     try {
       const seenIds = papers.map(p => p.id).join(',')
-      const response = await fetch(`/api/papers?limit=20&exclude=${encodeURIComponent(seenIds)}`)
+      const response = await fetch(`/api/papers?limit=20&exclude=${encodeURIComponent(seenIds)}${feedQuery}`)
       if (!response.ok) throw new Error('Failed to fetch more papers')
       const data = await response.json()
       
@@ -193,7 +396,7 @@ export default function Home() {
     } finally {
       setLoadingMore(false)
     }
-  }, [loadingMore, hasMore, papers.length])
+  }, [loadingMore, hasMore, papers.length, feedQuery])
 
   const currentPaper = showBookmarks ? bookmarks[currentIndex] : papers[currentIndex]
 
@@ -314,7 +517,7 @@ export default function Home() {
     fetchPapers()
   }, [fetchPapers])
 
-  // Load existing grades on mount
+  // Load existing grades on mount, keyed by qualified ID (the API converts older bare arXiv IDs)
   useEffect(() => {
     fetch('/api/grades')
       .then(res => res.json())
@@ -372,12 +575,132 @@ export default function Home() {
     return colors[Math.abs(hash) % colors.length]
   }
 
+  // Best-effort venue: the journal reference, else an "Accepted at X" style comment
+  const getVenue = (paper: Paper) => {
+    if (paper.journalRef) return paper.journalRef
+    const match = paper.comment?.match(/(?:accepted|to appear|published)\s+(?:at|in|to|by)\s+(?:the\s+)?([^.;,()]+)/i)
+    return match ? match[1].trim() : null
+  }
+
+  // Tag badge; hovering it explains why the filter picked the paper, when it said
+  const renderTagBadge = (paper: Paper) => {
+    const badge = (
+      <span className={cn(
+        "px-4 py-2 rounded-full text-base font-semibold",
+        getTagColor(paper.tag!),
+        paper.relevance && "cursor-help"
+      )}>
+        {paper.tag}
+      </span>
+    )
+    if (!paper.relevance) return badge
+    const { score, interest, rationale, similarity } = paper.relevance
+    return (
+      <HoverCard openDelay={200}>
+        <HoverCardTrigger asChild>{badge}</HoverCardTrigger>
+        <HoverCardContent className="w-80 space-y-2 text-sm">
+          <div className="flex items-baseline justify-between">
+            <span className="font-semibold">Why you&apos;re seeing this</span>
+            {score !== undefined && <span className="text-xs text-muted-foreground">relevance {score}/100</span>}
+          </div>
+          {interest && <p className="text-xs"><span className="text-muted-foreground">Matched: </span>{interest}</p>}
+          {rationale && <p className="text-muted-foreground">{rationale}</p>}
+          {similarity !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Similarity to papers you liked: {similarity.toFixed(2)}
+            </p>
+          )}
+          {score === undefined && (
+            <p className="text-xs text-muted-foreground">The filter didn&apos;t explain this pick.</p>
+          )}
+        </HoverCardContent>
+      </HoverCard>
+    )
+  }
+
+  // Badge for papers by authors the user follows
+  const renderFollowedBadge = (paper: Paper) => {
+    const names = paper.authors.filter(name => authorKey(name) in followedAuthors)
+    return names.length > 0 && (
+      <span
+        className="px-2 py-1 rounded-full text-xs font-semibold bg-sky-500/20 text-sky-700 dark:text-sky-300"
+        title={`By ${names.join(', ')}`}
+      >
+        followed
+      </span>
+    )
+  }
+
+  // "+N related" toggle for a stacked card
+  const renderRelatedToggle = (paper: Paper) => paper.related && paper.related.length > 0 && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 text-xs text-muted-foreground"
+      onClick={(e) => {
+        e.stopPropagation()
+        setExpandedCluster(expandedCluster === paper.id ? null : paper.id)
+      }}
+    >
+      <SquareStack className="h-3.5 w-3.5 mr-1" />
+      +{paper.related.length} related
+    </Button>
+  )
+
+  // The papers stacked under this one, expanded in place. Their methods are held back
+  // until the reveal in Active mode so they don't give the answer away.
+  const renderRelated = (paper: Paper, showMethods: boolean) => expandedCluster === paper.id && paper.related && (
+    <div className="space-y-2 rounded-md border p-3 cursor-default" onClick={(e) => e.stopPropagation()}>
+      {paper.related.map(sibling => (
+        <div key={sibling.id} className="space-y-0.5">
+          <a
+            href={sibling.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm font-medium hover:underline"
+          >
+            {sibling.title}
+          </a>
+          {showMethods ? (
+            sibling.method && <p className="text-xs text-muted-foreground">{sibling.method}</p>
+          ) : (
+            sibling.question && <p className="text-xs text-muted-foreground italic">{sibling.question}</p>
+          )}
+        </div>
+      ))}
+      {!showMethods && (
+        <p className="text-xs text-muted-foreground/70">Their methods appear once you&apos;ve guessed this one&apos;s.</p>
+      )}
+    </div>
+  )
+
+  // Word-level diff between two versions of a text, with additions and removals highlighted
+  const renderDiff = (before: string, after: string) =>
+    diffWords(before, after).map((part, i) => (
+      <span
+        key={i}
+        className={cn(
+          part.type === 'added' && "bg-green-500/20 text-green-700 dark:text-green-300",
+          part.type === 'removed' && "bg-red-500/20 text-red-700 dark:text-red-300 line-through"
+        )}
+      >
+        {part.text}
+      </span>
+    ))
+
   const handleBookmark = (paper: Paper) => {
     const isBookmarked = bookmarks.some(b => b.id === paper.id)
     if (isBookmarked) {
       setBookmarks(bookmarks.filter(b => b.id !== paper.id))
+      fetch(`/api/bookmarks?paperId=${encodeURIComponent(paper.id)}`, { method: 'DELETE' })
+        .catch(err => console.error('Error removing bookmark:', err))
     } else {
       setBookmarks([...bookmarks, { ...paper, bookmarkedAt: new Date().toISOString() }])
+      fetch('/api/bookmarks', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paperId: paper.id }),
+      }).catch(err => console.error('Error saving bookmark:', err))
     }
   }
 
@@ -408,7 +731,7 @@ export default function Home() {
       // Fetch full content when flipping for the first time
       setLoadingContent(currentPaper.id)
       try {
-        const response = await fetch(`/api/papers/${currentPaper.id}/content`)
+        const response = await fetch(`/api/papers/content?id=${encodeURIComponent(currentPaper.id)}`)
         if (response.ok) {
           const data = await response.json()
           // Update the paper with full content
@@ -444,6 +767,7 @@ export default function Home() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
+            paperId: currentPaper?.id,
             question: currentPaper?.question,
             thesisGuess,
             methodGuess,
@@ -481,6 +805,7 @@ export default function Home() {
               thesisFeedback: data.thesis_feedback,
               methodFeedback: data.method_feedback,
               overallFeedback: data.overall,
+              promptVersionId: data.promptVersionId,
             }),
           }).catch(err => console.error('Error saving interaction:', err))
         }
@@ -498,7 +823,7 @@ export default function Home() {
     if (loadingContent) return ''
     setLoadingContent(currentPaper.id)
     try {
-      const response = await fetch(`/api/papers/${currentPaper.id}/content`)
+      const response = await fetch(`/api/papers/content?id=${encodeURIComponent(currentPaper.id)}`)
       if (response.ok) {
         const data = await response.json()
         if (showBookmarks) {
@@ -577,12 +902,21 @@ export default function Home() {
 
   const isBookmarked = currentPaper ? bookmarks.some(b => b.id === currentPaper.id) : false
 
-  if (isLoading) {
+  if (isLoading || backfilling) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="flex flex-col items-center gap-4">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          <p className="text-muted-foreground">Loading papers...</p>
+          <p className="text-muted-foreground">
+            {backfilling && selectedDate
+              ? `Harvesting papers for ${format(parse(selectedDate, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy')}...`
+              : 'Loading papers...'}
+          </p>
+          {backfilling && (
+            <Button onClick={() => selectDate(null)} variant="ghost" size="sm">
+              Back to latest
+            </Button>
+          )}
         </div>
       </div>
     )
@@ -592,11 +926,24 @@ export default function Home() {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="flex flex-col items-center gap-4">
-          <p className="text-muted-foreground">No papers available</p>
-          <Button onClick={fetchPapers} variant="outline">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
-          </Button>
+          <p className="text-muted-foreground">
+            {selectedDeck
+              ? `No papers in ${selectedDeck}`
+              : selectedDate
+              ? `No papers for ${format(parse(selectedDate, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy')}`
+              : 'No papers available'}
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={fetchPapers} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            {(selectedDate || selectedDeck) && (
+              <Button onClick={() => selectDate(null)} variant="outline">
+                Back to latest
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     )
@@ -629,6 +976,88 @@ export default function Home() {
                 <TabsTrigger value="review" className="text-xs px-3">Review</TabsTrigger>
               </TabsList>
             </Tabs>
+            <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant={selectedDate ? "default" : "outline"} size="sm">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  {selectedDate ? format(parse(selectedDate, 'yyyy-MM-dd', new Date()), 'MMM d') : 'Latest'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate ? parse(selectedDate, 'yyyy-MM-dd', new Date()) : undefined}
+                  onSelect={(date) => selectDate(date ? format(date, 'yyyy-MM-dd') : null)}
+                  disabled={{ after: new Date() }}
+                />
+                {selectedDate && (
+                  <div className="border-t p-2">
+                    <Button variant="ghost" size="sm" className="w-full" onClick={() => selectDate(null)}>
+                      Back to latest
+                    </Button>
+                  </div>
+                )}
+              </PopoverContent>
+            </Popover>
+            <Popover open={importOpen} onOpenChange={(open) => {
+              setImportOpen(open)
+              if (open) loadDecks()
+            }}>
+              <PopoverTrigger asChild>
+                <Button variant={selectedDeck ? "default" : "outline"} size="sm">
+                  <Layers className="h-4 w-4 mr-2" />
+                  {selectedDeck || 'Import'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 space-y-3" align="end">
+                <Textarea
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                  placeholder={'2401.12345\nhttps://arxiv.org/abs/2310.06825\n10.1101/2024.01.02.123456'}
+                  className="font-mono text-xs"
+                  rows={4}
+                />
+                <Input
+                  value={importDeck}
+                  onChange={(e) => setImportDeck(e.target.value)}
+                  placeholder="Deck (optional; default: front of feed)"
+                  className="h-8 text-sm"
+                />
+                <Button size="sm" className="w-full" onClick={importPapers} disabled={importing || !importText.trim()}>
+                  {importing && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {importing ? 'Importing...' : 'Import'}
+                </Button>
+                {importMessage && (
+                  <p className="text-xs text-muted-foreground whitespace-pre-line">{importMessage}</p>
+                )}
+                {(decks.length > 0 || selectedDeck) && (
+                  <div className="border-t pt-2 space-y-1">
+                    {decks.map(deck => (
+                      <Button
+                        key={deck.name}
+                        variant={selectedDeck === deck.name ? "secondary" : "ghost"}
+                        size="sm"
+                        className="w-full justify-between"
+                        onClick={() => { selectDeck(deck.name); setImportOpen(false) }}
+                      >
+                        {deck.name}
+                        <span className="text-xs text-muted-foreground">{deck.count}</span>
+                      </Button>
+                    ))}
+                    {selectedDeck && currentPaper && !showBookmarks && (
+                      <Button variant="ghost" size="sm" className="w-full" onClick={() => removeFromDeck(currentPaper)}>
+                        Remove this card from {selectedDeck}
+                      </Button>
+                    )}
+                    {selectedDeck && (
+                      <Button variant="ghost" size="sm" className="w-full" onClick={() => { selectDate(null); setImportOpen(false) }}>
+                        Back to latest
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </PopoverContent>
+            </Popover>
             <Button
               variant={showBookmarks ? "default" : "outline"}
               size="sm"
@@ -644,6 +1073,26 @@ export default function Home() {
             <Button variant="outline" size="sm" onClick={fetchPapers}>
               <RefreshCw className="h-4 w-4" />
             </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/authors" title="Followed authors">
+                <Users className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/filtered" title="Filtered out">
+                <ListX className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/usage" title="LLM usage">
+                <ChartColumn className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/settings" title="Settings">
+                <Settings className="h-4 w-4" />
+              </Link>
+            </Button>
           </div>
         </div>
       </div>
@@ -675,7 +1124,10 @@ export default function Home() {
             {report && (
               <Card>
                 <CardContent className="p-6">
-                  <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">Report</h3>
+                  <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+                    Report
+                    {reportPromptVersion !== null && <span className="font-normal normal-case tracking-normal"> · prompt v{reportPromptVersion}</span>}
+                  </h3>
                   <div className="text-sm whitespace-pre-wrap">{report}</div>
                 </CardContent>
               </Card>
@@ -769,6 +1221,15 @@ export default function Home() {
       ) : (
       <div className="flex items-center justify-center h-full pt-20 pb-20">
         <div className="relative w-full max-w-2xl h-[80vh] perspective-1000">
+          {/* Cards stacked behind a cluster's representative */}
+          {currentPaper.related && currentPaper.related.length > 0 && !isFlipped && (
+            <>
+              {currentPaper.related.length > 1 && (
+                <div className="absolute inset-0 translate-x-3 translate-y-3 rounded-xl border bg-card/40" />
+              )}
+              <div className="absolute inset-0 translate-x-1.5 translate-y-1.5 rounded-xl border bg-card/70" />
+            </>
+          )}
           {/* Paper Card */}
           <div 
             className={cn(
@@ -802,15 +1263,29 @@ export default function Home() {
                     <div className="space-y-6 flex-1 overflow-y-auto">
                       {/* Tag */}
                       {currentPaper.tag && (
-                        <div className="flex justify-center">
-                          <span className={cn(
-                            "px-4 py-2 rounded-full text-base font-semibold",
-                            getTagColor(currentPaper.tag)
-                          )}>
-                            {currentPaper.tag}
-                          </span>
+                        <div className="flex justify-center items-center gap-2">
+                          {renderTagBadge(currentPaper)}
+                          {currentPaper.revision && (
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-500/20 text-amber-700 dark:text-amber-300"
+                              title="A new version of this paper was posted. Flip the card to see what changed."
+                            >
+                              revised v{currentPaper.revision.fromVersion}→v{currentPaper.revision.toVersion}
+                            </span>
+                          )}
+                          {renderFollowedBadge(currentPaper)}
+                          {currentPaper.explored && (
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-semibold bg-violet-500/20 text-violet-700 dark:text-violet-300"
+                              title="Picked outside your interest profile to broaden the feed"
+                            >
+                              exploring
+                            </span>
+                          )}
+                          {renderRelatedToggle(currentPaper)}
                         </div>
                       )}
+                      {renderRelated(currentPaper, activeStage === 3)}
 
                       {/* Question (always visible) */}
                       {currentPaper.question && (
@@ -944,6 +1419,11 @@ export default function Home() {
                       <p className="text-xs text-muted-foreground line-clamp-2">
                         {currentPaper.title}
                       </p>
+                      {(currentPaper.primaryCategory || getVenue(currentPaper)) && (
+                        <p className="text-xs text-muted-foreground/70 mt-1">
+                          {[currentPaper.primaryCategory, getVenue(currentPaper)].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
                     </div>
                   </>
                 ) : (
@@ -952,15 +1432,29 @@ export default function Home() {
                     <div className="space-y-8">
                       {/* Tag */}
                       {currentPaper.tag && (
-                        <div className="flex justify-center">
-                          <span className={cn(
-                            "px-4 py-2 rounded-full text-base font-semibold",
-                            getTagColor(currentPaper.tag)
-                          )}>
-                            {currentPaper.tag}
-                          </span>
+                        <div className="flex justify-center items-center gap-2">
+                          {renderTagBadge(currentPaper)}
+                          {currentPaper.revision && (
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-500/20 text-amber-700 dark:text-amber-300"
+                              title="A new version of this paper was posted. Flip the card to see what changed."
+                            >
+                              revised v{currentPaper.revision.fromVersion}→v{currentPaper.revision.toVersion}
+                            </span>
+                          )}
+                          {renderFollowedBadge(currentPaper)}
+                          {currentPaper.explored && (
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-semibold bg-violet-500/20 text-violet-700 dark:text-violet-300"
+                              title="Picked outside your interest profile to broaden the feed"
+                            >
+                              exploring
+                            </span>
+                          )}
+                          {renderRelatedToggle(currentPaper)}
                         </div>
                       )}
+                      {renderRelated(currentPaper, true)}
 
                       {/* Question */}
                       {currentPaper.question && (
@@ -998,6 +1492,11 @@ export default function Home() {
                       <p className="text-xs text-muted-foreground line-clamp-2">
                         {currentPaper.title}
                       </p>
+                      {(currentPaper.primaryCategory || getVenue(currentPaper)) && (
+                        <p className="text-xs text-muted-foreground/70 mt-1">
+                          {[currentPaper.primaryCategory, getVenue(currentPaper)].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
                     </div>
                   </>
                 )}
@@ -1015,16 +1514,100 @@ export default function Home() {
               <CardContent className="p-6 h-full flex flex-col">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-lg font-bold line-clamp-2">{currentPaper.title}</h2>
-                  <div className="text-xs text-muted-foreground">
-                    {currentPaper.authors.length > 2 ? 
-                      `${currentPaper.authors[0]} et al.` : 
-                      currentPaper.authors.join(', ')
-                    }
-                  </div>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button className="text-xs text-muted-foreground hover:text-foreground shrink-0" title="Authors">
+                        {currentPaper.authors.length > 2 ? 
+                          `${currentPaper.authors[0]} et al.` : 
+                          currentPaper.authors.join(', ')
+                        }
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-72 p-1 max-h-80 overflow-y-auto" align="end" onClick={(e) => e.stopPropagation()}>
+                      {currentPaper.authors.map(name => {
+                        const following = authorKey(name) in followedAuthors
+                        return (
+                          <button
+                            key={name}
+                            className="w-full flex items-center justify-between gap-2 rounded px-2 py-1.5 text-sm text-left hover:bg-muted"
+                            onClick={() => toggleFollow(name)}
+                          >
+                            <span className="truncate">{name}</span>
+                            {following ? (
+                              <UserCheck className="h-4 w-4 shrink-0 text-sky-600" />
+                            ) : (
+                              <UserPlus className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            )}
+                          </button>
+                        )
+                      })}
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                {/* Categories and venue */}
+                <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                  {(currentPaper.categories ?? []).map(category => (
+                    <span
+                      key={category}
+                      className={cn(
+                        "px-2 py-0.5 rounded text-xs font-mono",
+                        category === currentPaper.primaryCategory ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground"
+                      )}
+                    >
+                      {category}
+                    </span>
+                  ))}
+                  {getVenue(currentPaper) && (
+                    <span className="text-xs text-muted-foreground ml-1">{getVenue(currentPaper)}</span>
+                  )}
+                  {currentPaper.version > 1 && (
+                    <span className="text-xs text-muted-foreground ml-auto">v{currentPaper.version}</span>
+                  )}
                 </div>
                 
                 <div className="flex-1 overflow-y-auto">
                   <div className="space-y-4">
+                    {/* Changes since the version we last saw */}
+                    {currentPaper.revision && (
+                      <div className="border-b pb-4 space-y-3">
+                        <h3 className="text-sm font-semibold text-amber-700 dark:text-amber-300">
+                          Changes in v{currentPaper.revision.toVersion} (since v{currentPaper.revision.fromVersion})
+                        </h3>
+                        {currentPaper.revision.previousTitle !== currentPaper.title && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Title</p>
+                            <p className="text-sm">{renderDiff(currentPaper.revision.previousTitle, currentPaper.title)}</p>
+                          </div>
+                        )}
+                        {currentPaper.revision.previousAbstract !== currentPaper.abstract ? (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Abstract</p>
+                            <p className="text-sm text-muted-foreground leading-relaxed">
+                              {renderDiff(currentPaper.revision.previousAbstract, currentPaper.abstract)}
+                            </p>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">Abstract unchanged.</p>
+                        )}
+                        {([
+                          ['Thesis', currentPaper.revision.previousThesis, currentPaper.thesis],
+                          ['Method', currentPaper.revision.previousMethod, currentPaper.method],
+                        ] as const).map(([label, before, after]) => (
+                          <div key={label}>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">{label} (re-extracted)</p>
+                            {currentPaper.revision?.reextracting ? (
+                              <p className="text-xs text-muted-foreground">Not re-extracted yet; the card shows v{currentPaper.revision.fromVersion}&apos;s.</p>
+                            ) : before && after && before !== after ? (
+                              <p className="text-sm">{renderDiff(before, after)}</p>
+                            ) : (
+                              <p className="text-xs text-muted-foreground">Unchanged.</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Abstract Section */}
                     <div className="border-b pb-4">
                       <h3 className="text-sm font-semibold mb-2 text-primary">Abstract</h3>
@@ -1058,16 +1641,16 @@ export default function Home() {
                   </div>
                 </div>
                 
-                {/* Footer with arXiv link */}
+                {/* Footer with source link */}
                 <div className="border-t pt-3 mt-4">
                   <a 
-                    href={currentPaper.arxivUrl} 
+                    href={currentPaper.url} 
                     target="_blank" 
                     rel="noopener noreferrer"
                     className="text-primary hover:underline text-sm flex items-center justify-center gap-2 py-2 px-4 rounded-md bg-primary/10 hover:bg-primary/20 transition-colors"
                     onClick={(e) => e.stopPropagation()}
                   >
-                    View on arXiv
+                    View on {SOURCE_LABELS[currentPaper.source] ?? currentPaper.source}
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                     </svg>
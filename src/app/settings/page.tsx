@@ -0,0 +1,37 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SourcesPanel } from '@/components/settings/sources-panel'
+import { InterestsPanel } from '@/components/settings/interests-panel'
+import { RulesPanel } from '@/components/settings/rules-panel'
+import { FeedMixPanel } from '@/components/settings/feed-mix-panel'
+import { IngestPanel } from '@/components/settings/ingest-panel'
+import { LLMPanel } from '@/components/settings/llm-panel'
+import { PromptsPanel } from '@/components/settings/prompts-panel'
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Settings</h1>
+        </div>
+
+        <SourcesPanel />
+        <InterestsPanel />
+        <RulesPanel />
+        <FeedMixPanel />
+        <IngestPanel />
+        <LLMPanel />
+        <PromptsPanel />
+      </div>
+    </div>
+  )
+}
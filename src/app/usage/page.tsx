@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Input } from '@/components/ui/input'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+
+interface UsageTotals {
+  calls: number
+  errors: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  unpriced: number
+  latencyMs: number
+}
+
+interface UsageSummary {
+  days: (UsageTotals & { date: string })[]
+  byTask: (UsageTotals & { key: string })[]
+  byModel: (UsageTotals & { key: string })[]
+  byRoute: (UsageTotals & { key: string })[]
+  recentErrors: { createdAt: string; route: string; task: string; model: string; error: string | null }[]
+  spentToday: number
+  dailyBudget: number | null
+}
+
+const RANGES = [7, 30, 90]
+
+const costConfig = {
+  cost: { label: 'Cost (USD)', color: 'var(--chart-1)' },
+} satisfies ChartConfig
+
+const tokenConfig = {
+  inputTokens: { label: 'Input tokens', color: 'var(--chart-2)' },
+  outputTokens: { label: 'Output tokens', color: 'var(--chart-3)' },
+} satisfies ChartConfig
+
+const callConfig = {
+  ok: { label: 'Succeeded', color: 'var(--chart-4)' },
+  errors: { label: 'Failed', color: 'var(--chart-5)' },
+} satisfies ChartConfig
+
+const formatCost = (cost: number) => cost < 0.01 && cost > 0 ? '<$0.01' : `$${cost.toFixed(2)}`
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+const dayLabel = (date: string) => format(parseISO(date), 'MMM d')
+
+function BreakdownTable({ title, rows }: { title: string; rows: (UsageTotals & { key: string })[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No calls in this range.</p>
+        ) : (
+          <div className="rounded-md border divide-y text-sm">
+            <div className="grid grid-cols-[1fr_4rem_5rem_5rem_4.5rem] gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+              <span />
+              <span className="text-right">Calls</span>
+              <span className="text-right">Tokens</span>
+              <span className="text-right">Latency</span>
+              <span className="text-right">Cost</span>
+            </div>
+            {rows.map(row => (
+              <div key={row.key} className="grid grid-cols-[1fr_4rem_5rem_5rem_4.5rem] gap-2 px-3 py-1.5 tabular-nums">
+                <span className="truncate font-mono text-xs self-center" title={row.key}>{row.key}</span>
+                <span className="text-right">
+                  {row.calls}
+                  {row.errors > 0 && <span className="text-destructive"> ({row.errors}✗)</span>}
+                </span>
+                <span className="text-right">{formatTokens(row.inputTokens + row.outputTokens)}</span>
+                <span className="text-right">{(row.latencyMs / 1000).toFixed(1)}s</span>
+                <span className="text-right" title={row.unpriced > 0 ? `${row.unpriced} calls to a model with no known price` : undefined}>
+                  {formatCost(row.cost)}{row.unpriced > 0 && '*'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// What the LLM calls cost: daily spend, tokens, and failures, with an optional daily budget
+export default function UsagePage() {
+  const [range, setRange] = useState(30)
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [budget, setBudget] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/usage?days=${range}`)
+      const data = await response.json()
+      setUsage(data)
+      setBudget(data.dailyBudget === null ? '' : String(data.dailyBudget))
+    } catch (err) {
+      console.error('Error loading LLM usage:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [range])
+
+  useEffect(() => {
+    loadUsage()
+  }, [loadUsage])
+
+  const saveBudget = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/usage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dailyBudget: budget.trim() === '' ? null : budget }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save budget')
+        return
+      }
+      setUsage(prev => prev && { ...prev, dailyBudget: data.dailyBudget })
+    } catch (err) {
+      console.error('Error saving LLM budget:', err)
+      setError('Failed to save budget')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const chartDays = usage?.days.map(day => ({ ...day, label: dayLabel(day.date), ok: day.calls - day.errors })) ?? []
+  const total = usage?.days.reduce((sum, day) => sum + day.cost, 0) ?? 0
+  const budgetShare = usage?.dailyBudget ? Math.min(100, (usage.spentToday / usage.dailyBudget) * 100) : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">LLM usage</h1>
+          <div className="ml-auto">
+            <Select value={String(range)} onValueChange={(value) => setRange(Number(value))}>
+              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {RANGES.map(days => <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading && !usage ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : usage && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Today</CardTitle>
+                <CardDescription>
+                  Costs are estimates from token counts and list prices. Once the daily budget is
+                  spent, ingestion stops extracting new papers and picks them up the next day;
+                  chat, feedback, and imports you ask for still run.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-baseline justify-between text-sm">
+                    <span className="text-2xl font-semibold tabular-nums">{formatCost(usage.spentToday)}</span>
+                    <span className="text-muted-foreground">
+                      {usage.dailyBudget === null ? 'No daily budget' : `of ${formatCost(usage.dailyBudget)} budget`}
+                    </span>
+                  </div>
+                  {usage.dailyBudget !== null && (
+                    <Progress value={budgetShare} className={cn(budgetShare >= 100 && "[&>div]:bg-destructive")} />
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={budget}
+                    onChange={(e) => setBudget(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveBudget()}
+                    placeholder="Daily budget in USD (empty for none)"
+                  />
+                  <Button onClick={saveBudget} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save
+                  </Button>
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Daily cost</CardTitle>
+                <CardDescription>{formatCost(total)} over the last {range} days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={costConfig} className="aspect-auto h-48 w-full">
+                  <BarChart data={chartDays}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `$${value}`} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatCost(Number(value))} />} />
+                    <Bar dataKey="cost" fill="var(--color-cost)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 sm:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Tokens</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={tokenConfig} className="aspect-auto h-40 w-full">
+                    <BarChart data={chartDays}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={formatTokens} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="inputTokens" stackId="tokens" fill="var(--color-inputTokens)" />
+                      <Bar dataKey="outputTokens" stackId="tokens" fill="var(--color-outputTokens)" radius={[2, 2, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Calls</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={callConfig} className="aspect-auto h-40 w-full">
+                    <BarChart data={chartDays}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="ok" stackId="calls" fill="var(--color-ok)" />
+                      <Bar dataKey="errors" stackId="calls" fill="var(--color-errors)" radius={[2, 2, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <BreakdownTable title="By task" rows={usage.byTask} />
+            <BreakdownTable title="By model" rows={usage.byModel} />
+            <BreakdownTable title="By route" rows={usage.byRoute} />
+
+            {usage.recentErrors.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Recent failures</CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {usage.recentErrors.map((call, i) => (
+                    <div key={i} className="py-2 space-y-0.5">
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(call.createdAt), { addSuffix: true })} · {call.task} · {call.route} · <span className="font-mono">{call.model}</span>
+                      </p>
+                      <p className="text-sm text-destructive break-words">{call.error}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+
+interface FeedMix {
+  quotas: Record<string, { min?: number; max?: number }>
+  exploration: number
+}
+
+// Form state keeps percentages as typed; empty means no bound
+interface MixForm {
+  quotas: Record<string, { min: string; max: string }>
+  exploration: number   // percent
+}
+
+const toPercent = (share?: number) => share === undefined ? '' : String(Math.round(share * 100))
+const toShare = (percent: string) => percent.trim() === '' ? undefined : Number(percent) / 100
+
+const toForm = (mix: FeedMix, tags: string[]): MixForm => ({
+  quotas: Object.fromEntries(tags.map(tag => [tag, {
+    min: toPercent(mix.quotas[tag]?.min),
+    max: toPercent(mix.quotas[tag]?.max),
+  }])),
+  exploration: Math.round(mix.exploration * 100),
+})
+
+export function FeedMixPanel() {
+  const [tags, setTags] = useState<string[]>([])
+  const [maxExploration, setMaxExploration] = useState(50)
+  const [form, setForm] = useState<MixForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/feed-mix')
+      .then(response => response.json())
+      .then(data => {
+        setTags(data.tags || [])
+        setMaxExploration(Math.round((data.maxExploration ?? 0.5) * 100))
+        setForm(toForm(data.mix, data.tags || []))
+      })
+      .catch(err => console.error('Error loading feed mix:', err))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const updateQuota = (tag: string, bound: 'min' | 'max', value: string) => {
+    if (!form) return
+    setSaved(false)
+    setForm({ ...form, quotas: { ...form.quotas, [tag]: { ...form.quotas[tag], [bound]: value } } })
+  }
+
+  const saveMix = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/feed-mix', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          quotas: Object.fromEntries(Object.entries(form.quotas).map(([tag, q]) => [tag, { min: toShare(q.min), max: toShare(q.max) }])),
+          exploration: form.exploration / 100,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save feed mix')
+        return
+      }
+      setForm(toForm(data.mix, tags))
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving feed mix:', err)
+      setError('Failed to save feed mix')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Feed mix</CardTitle>
+        <CardDescription>
+          Balances each run&apos;s picks across topic tags once papers are tagged. Bounds are
+          percentages of the run&apos;s picks; leave them empty for no limit. Exploration reserves
+          a share for papers the filter passed over, chosen at random.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || !form ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Exploration</Label>
+                <span className="text-sm tabular-nums text-muted-foreground">{form.exploration}%</span>
+              </div>
+              <Slider
+                value={[form.exploration]}
+                min={0}
+                max={maxExploration}
+                step={5}
+                onValueChange={([exploration]) => { setSaved(false); setForm({ ...form, exploration }) }}
+              />
+            </div>
+
+            <div className="rounded-md border divide-y">
+              <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+                <span>Tag</span>
+                <span>Min %</span>
+                <span>Max %</span>
+              </div>
+              {tags.map(tag => (
+                <div key={tag} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center px-3 py-1.5">
+                  <span className="text-sm truncate">{tag}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="h-8"
+                    value={form.quotas[tag]?.min ?? ''}
+                    onChange={(e) => updateQuota(tag, 'min', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="h-8"
+                    value={form.quotas[tag]?.max ?? ''}
+                    onChange={(e) => updateQuota(tag, 'max', e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex items-center justify-end gap-3">
+              {saved && <span className="text-xs text-muted-foreground">Saved; applies from the next run</span>}
+              <Button size="sm" onClick={saveMix} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
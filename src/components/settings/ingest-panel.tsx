@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Loader2, Play } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+interface IngestRun {
+  id: string
+  trigger: string
+  status: 'running' | 'succeeded' | 'failed'
+  startedAt: string
+  finishedAt: string | null
+  fetched: number
+  newPapers: number
+  judged: number
+  shortlisted: number
+  selected: number
+  extracted: number
+  deferred: number
+  revised: number
+  errors: string[]
+  interests: { profileName: string; version: number } | null
+}
+
+interface ExtractionQueue {
+  processing: number
+  pending: number
+  failed: { id: string; title: string; error?: string; attempts: number; retryAt?: string }[]
+  failedCount: number
+}
+
+export function IngestPanel() {
+  const [runs, setRuns] = useState<IngestRun[]>([])
+  const [extraction, setExtraction] = useState<ExtractionQueue | null>(null)
+  const [running, setRunning] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const loadRuns = async () => {
+    try {
+      const response = await fetch('/api/ingest?limit=10')
+      const data = await response.json()
+      setRuns(data.runs || [])
+      setExtraction(data.extraction ?? null)
+      setRunning(!!data.running)
+    } catch (err) {
+      console.error('Error loading ingestion runs:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRuns()
+  }, [])
+
+  // Poll while a run or an import's extraction is in progress
+  const extracting = !!extraction && extraction.processing + extraction.pending > 0
+  useEffect(() => {
+    if (!running && !extracting) return
+    const timer = setInterval(loadRuns, 3000)
+    return () => clearInterval(timer)
+  }, [running, extracting])
+
+  const runNow = async () => {
+    setRunning(true)
+    try {
+      await fetch('/api/ingest', { method: 'POST' })
+      await loadRuns()
+    } catch (err) {
+      console.error('Error starting ingestion:', err)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Ingestion</CardTitle>
+            <CardDescription>Recent harvest, filter and extraction runs.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={runNow} disabled={running}>
+            {running ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Run now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {extraction && (extracting || extraction.failedCount > 0) && (
+          <div className="text-sm rounded-md border p-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Extraction: {extraction.processing} processing · {extraction.pending} queued · {extraction.failedCount} failed
+            </p>
+            {extraction.failed.length > 0 && (
+              <ul className="space-y-1">
+                {extraction.failed.map(paper => (
+                  <li key={paper.id} className="text-xs">
+                    <span className="font-medium">{paper.title}</span>
+                    <span className="text-red-600"> · {paper.error}</span>
+                    <span className="text-muted-foreground">
+                      {' '}· failed {paper.attempts}×
+                      {paper.retryAt && `, retry due ${formatDistanceToNow(new Date(paper.retryAt), { addSuffix: true })}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No runs yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map(run => (
+              <div key={run.id} className="text-sm border-b last:border-b-0 pb-3 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {new Date(run.startedAt).toLocaleString()}
+                    <span className="ml-2 text-xs text-muted-foreground">{run.trigger}</span>
+                  </span>
+                  <span className={cn(
+                    "text-xs font-medium",
+                    run.status === 'succeeded' && "text-green-600",
+                    run.status === 'failed' && "text-red-600",
+                    run.status === 'running' && "text-muted-foreground",
+                  )}>
+                    {run.status}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {run.fetched} fetched · {run.newPapers} new · {run.judged} judged · {run.shortlisted} shortlisted · {run.selected} selected · {run.extracted} extracted{run.deferred > 0 && ` · ${run.deferred} deferred (over budget)`} · {run.revised} revised
+                  {run.finishedAt && ` · ${Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000)}s`}
+                  {run.interests && ` · interests: ${run.interests.profileName} v${run.interests.version}`}
+                </p>
+                {run.errors.length > 0 && (
+                  <ul className="text-xs text-red-600 mt-1 list-disc pl-4">
+                    {run.errors.map((err, i) => <li key={i}>{err}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
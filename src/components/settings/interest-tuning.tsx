@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Loader2, Sparkles, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface ProposalLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+  rationale?: string
+  evidence?: { paperId: string; title: string; tag?: string; grade?: string; bookmarked: boolean }[]
+}
+
+interface InterestProposal {
+  profileId: string
+  profileName: string
+  baseVersion: number
+  lines: ProposalLine[]
+  summary: string
+}
+
+// "Tune my profile": ask for edits to the active interest profile based on recent grades
+// and bookmarks, review the diff line by line, and save the accepted lines as a new version
+export function InterestTuning({ onApplied }: { onApplied: (profileId: string) => void }) {
+  const [proposal, setProposal] = useState<InterestProposal | null>(null)
+  const [accepted, setAccepted] = useState<Record<number, boolean>>({})
+  const [proposing, setProposing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const propose = async () => {
+    setProposing(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/interest-profiles/tune', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to propose an update')
+        return
+      }
+      setProposal(data.proposal)
+      // Every change starts accepted
+      setAccepted(Object.fromEntries(
+        data.proposal.lines.map((line: ProposalLine, i: number) => [i, line.type !== 'equal'])
+      ))
+    } catch (err) {
+      console.error('Error proposing interest update:', err)
+      setError('Failed to propose an update')
+    } finally {
+      setProposing(false)
+    }
+  }
+
+  const apply = async () => {
+    if (!proposal) return
+    // Accepted additions go in, accepted removals come out, rejected changes revert
+    const content = proposal.lines
+      .filter((line, i) => line.type === 'equal' || (line.type === 'added') === !!accepted[i])
+      .map(line => line.text)
+      .join('\n')
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/interest-profiles', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: proposal.profileId, content, baseVersion: proposal.baseVersion }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save profile')
+        return
+      }
+      setProposal(null)
+      onApplied(proposal.profileId)
+    } catch (err) {
+      console.error('Error applying interest update:', err)
+      setError('Failed to save profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const changeCount = proposal?.lines.filter(line => line.type !== 'equal').length ?? 0
+
+  if (!proposal) {
+    return (
+      <div className="space-y-2">
+        <Button variant="outline" size="sm" onClick={propose} disabled={proposing}>
+          {proposing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Sparkles className="h-4 w-4 mr-2" />}
+          {proposing ? 'Reading your grades...' : 'Tune from grades & bookmarks'}
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div>
+        <p className="text-sm font-medium">
+          Proposed changes to {proposal.profileName} v{proposal.baseVersion}
+        </p>
+        {proposal.summary && <p className="text-xs text-muted-foreground mt-1">{proposal.summary}</p>}
+      </div>
+
+      {changeCount === 0 ? (
+        <p className="text-sm text-muted-foreground">Your grades don't suggest any changes.</p>
+      ) : (
+        <div className="space-y-1 text-sm max-h-[28rem] overflow-y-auto">
+          {proposal.lines.map((line, i) => line.type === 'equal' ? (
+            line.text.trim() && (
+              <p key={i} className="px-2 text-xs text-muted-foreground line-clamp-1">{line.text}</p>
+            )
+          ) : (
+            <div
+              key={i}
+              className={cn(
+                "rounded px-2 py-1.5 space-y-1",
+                line.type === 'added' ? "bg-green-500/10" : "bg-red-500/10",
+                !accepted[i] && "opacity-50"
+              )}
+            >
+              <div className="flex gap-2 items-start">
+                <span className="font-mono text-xs mt-0.5">{line.type === 'added' ? '+' : '−'}</span>
+                <p className={cn("flex-1", line.type === 'removed' && accepted[i] && "line-through")}>{line.text}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2"
+                  onClick={() => setAccepted({ ...accepted, [i]: !accepted[i] })}
+                  title={accepted[i] ? 'Reject this change' : 'Accept this change'}
+                >
+                  {accepted[i] ? <Check className="h-3.5 w-3.5 text-green-600" /> : <X className="h-3.5 w-3.5 text-red-600" />}
+                </Button>
+              </div>
+              {line.rationale && <p className="text-xs text-muted-foreground pl-5">{line.rationale}</p>}
+              {line.evidence && line.evidence.length > 0 && (
+                <div className="flex flex-wrap gap-1 pl-5">
+                  {line.evidence.map(paper => (
+                    <Badge key={paper.paperId} variant="outline" className="text-xs font-normal max-w-full">
+                      <span className="font-semibold mr-1">{paper.grade || 'bookmarked'}</span>
+                      <span className="truncate">{paper.title}</span>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setProposal(null)}>
+          Discard
+        </Button>
+        {changeCount > 0 && (
+          <Button size="sm" onClick={apply} disabled={saving || !Object.values(accepted).some(Boolean)}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save accepted as v{proposal.baseVersion + 1}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
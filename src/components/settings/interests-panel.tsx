@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { History, Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { MarkdownEditor } from '@/components/settings/markdown-editor'
+import { InterestTuning } from '@/components/settings/interest-tuning'
+import { cn } from '@/lib/utils'
+
+interface InterestVersion {
+  id: string
+  version: number
+  content: string
+  createdAt: string
+}
+
+interface InterestProfile {
+  id: string
+  name: string
+  active: boolean
+  current: InterestVersion
+  versions: InterestVersion[]
+}
+
+interface ProfileForm {
+  id?: string
+  name: string
+  active: boolean
+  content: string
+  loadedVersion?: number   // which stored version the editor content started from
+  editorKey: number        // bumped to reload the editor with new content
+}
+
+let nextEditorKey = 0
+
+const toForm = (profile: InterestProfile, version: InterestVersion = profile.current): ProfileForm => ({
+  id: profile.id,
+  name: profile.name,
+  active: profile.active,
+  content: version.content,
+  loadedVersion: version.version,
+  editorKey: nextEditorKey++,
+})
+
+export function InterestsPanel() {
+  const [profiles, setProfiles] = useState<InterestProfile[]>([])
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProfiles = async (selectId?: string) => {
+    try {
+      const response = await fetch('/api/interest-profiles')
+      const data = await response.json()
+      const rows: InterestProfile[] = data.profiles || []
+      setProfiles(rows)
+      const selected = rows.find(p => p.id === selectId) || rows.find(p => p.active) || rows[0]
+      setForm(selected ? toForm(selected) : null)
+    } catch (err) {
+      console.error('Error loading interest profiles:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles()
+  }, [])
+
+  const selectedProfile = profiles.find(p => p.id === form?.id)
+
+  const startNewProfile = () => {
+    setError(null)
+    setShowHistory(false)
+    const base = profiles.find(p => p.active)
+    setForm({ name: '', active: false, content: base?.current.content || '', editorKey: nextEditorKey++ })
+  }
+
+  const saveProfile = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/interest-profiles', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: form.id, name: form.name, active: form.active, content: form.content }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save profile')
+        return
+      }
+      await loadProfiles(data.profile.id)
+    } catch (err) {
+      console.error('Error saving interest profile:', err)
+      setError('Failed to save profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProfile = async () => {
+    if (!form?.id) return
+    setError(null)
+    try {
+      const response = await fetch(`/api/interest-profiles?id=${encodeURIComponent(form.id)}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete profile')
+        return
+      }
+      await loadProfiles()
+    } catch (err) {
+      console.error('Error deleting interest profile:', err)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Interests</CardTitle>
+        <CardDescription>
+          What the relevance filter looks for. Every save keeps a new version, and each
+          judged paper records the version that selected it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {profiles.map(profile => (
+                <Button
+                  key={profile.id}
+                  variant={form?.id === profile.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => { setError(null); setShowHistory(false); setForm(toForm(profile)) }}
+                >
+                  {profile.name}
+                  <span className="ml-1 text-xs opacity-70">
+                    v{profile.current.version}{profile.active && ' (active)'}
+                  </span>
+                </Button>
+              ))}
+              <Button variant="ghost" size="sm" onClick={startNewProfile}>
+                <Plus className="h-4 w-4 mr-1" />
+                New profile
+              </Button>
+            </div>
+
+            <InterestTuning onApplied={(profileId) => loadProfiles(profileId)} />
+
+            {form && (
+              <div className="space-y-4 border-t pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="interests-name">Name</Label>
+                  <Input
+                    id="interests-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>
+                      Profile
+                      {selectedProfile && form.loadedVersion !== undefined && form.loadedVersion !== selectedProfile.current.version && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          from v{form.loadedVersion}; saving makes it v{selectedProfile.current.version + 1}
+                        </span>
+                      )}
+                    </Label>
+                    {selectedProfile && selectedProfile.versions.length > 1 && (
+                      <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                    )}
+                  </div>
+                  {showHistory && selectedProfile && (
+                    <div className="rounded-md border divide-y text-sm">
+                      {selectedProfile.versions.map(version => (
+                        <button
+                          key={version.id}
+                          className={cn(
+                            "w-full flex justify-between px-3 py-1.5 text-left hover:bg-muted",
+                            version.version === form.loadedVersion && "bg-muted"
+                          )}
+                          onClick={() => setForm(toForm({ ...selectedProfile, name: form.name, active: form.active }, version))}
+                        >
+                          <span>v{version.version}</span>
+                          <span className="text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <MarkdownEditor
+                    key={form.editorKey}
+                    markdown={form.content}
+                    onChange={(content) => setForm(prev => prev && { ...prev, content })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="interests-active"
+                    checked={form.active}
+                    onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+                  />
+                  <Label htmlFor="interests-active">Use for filtering</Label>
+                </div>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <div className={cn("flex gap-2", form.id ? "justify-between" : "justify-end")}>
+                  {form.id && (
+                    <Button variant="ghost" size="sm" onClick={deleteProfile}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={saveProfile} disabled={saving || !form.content.trim()}>
+                    {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
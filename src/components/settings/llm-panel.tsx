@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface LLMConfig {
+  provider: string
+  baseURL?: string
+  models: Record<string, string>
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  'openai': 'OpenAI',
+  'anthropic': 'Anthropic',
+  'openai-compatible': 'OpenAI-compatible server',
+}
+
+const TASK_LABELS: Record<string, string> = {
+  filter: 'Relevance filter',
+  extract: 'Question, thesis, and method',
+  feedback: 'Guess feedback',
+  chat: 'Paper chat',
+  report: 'Progress report',
+  tune: 'Profile tuning',
+  judge: 'Evaluation judge',
+}
+
+export function LLMPanel() {
+  const [providers, setProviders] = useState<string[]>([])
+  const [tasks, setTasks] = useState<string[]>([])
+  const [defaultModels, setDefaultModels] = useState<Record<string, string>>({})
+  const [defaultBaseURL, setDefaultBaseURL] = useState('')
+  const [mock, setMock] = useState(false)
+  const [config, setConfig] = useState<LLMConfig | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/llm-settings')
+      .then(response => response.json())
+      .then(data => {
+        setProviders(data.providers || [])
+        setTasks(data.tasks || [])
+        setDefaultModels(data.defaultModels || {})
+        setDefaultBaseURL(data.defaultBaseURL || '')
+        setMock(!!data.mock)
+        setConfig(data.config)
+      })
+      .catch(err => console.error('Error loading LLM settings:', err))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const update = (changes: Partial<LLMConfig>) => {
+    if (!config) return
+    setSaved(false)
+    setConfig({ ...config, ...changes })
+  }
+
+  // Models are provider-specific, so switching resets every task to the new provider's default
+  const changeProvider = (provider: string) => {
+    update({
+      provider,
+      baseURL: provider === 'openai-compatible' ? config?.baseURL || defaultBaseURL : undefined,
+      models: Object.fromEntries(tasks.map(task => [task, defaultModels[provider] ?? ''])),
+    })
+  }
+
+  const saveConfig = async () => {
+    if (!config) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/llm-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save LLM settings')
+        return
+      }
+      setConfig(data.config)
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving LLM settings:', err)
+      setError('Failed to save LLM settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Language model</CardTitle>
+        <CardDescription>
+          The provider and model behind each task. API keys come from the environment:
+          OPENAI_API_KEY, ANTHROPIC_API_KEY, or LLM_API_KEY for an OpenAI-compatible server
+          such as Ollama or vLLM.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || !config ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {mock && (
+              <p className="text-sm rounded-md bg-muted px-3 py-2">
+                LLM_PROVIDER=mock is set, so every call is answered from fixtures and these
+                settings take effect once it&apos;s removed.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={config.provider} onValueChange={changeProvider}>
+                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {providers.map(p => <SelectItem key={p} value={p}>{PROVIDER_LABELS[p] ?? p}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {config.provider === 'openai-compatible' && (
+              <div className="space-y-2">
+                <Label>Base URL</Label>
+                <Input
+                  value={config.baseURL ?? ''}
+                  onChange={(e) => update({ baseURL: e.target.value })}
+                  placeholder={defaultBaseURL}
+                  className="font-mono"
+                />
+              </div>
+            )}
+
+            <div className="rounded-md border divide-y">
+              <div className="grid grid-cols-[1fr_1fr] gap-2 px-3 py-1.5 text-xs font-medium text-muted-foreground">
+                <span>Task</span>
+                <span>Model</span>
+              </div>
+              {tasks.map(task => (
+                <div key={task} className="grid grid-cols-[1fr_1fr] gap-2 items-center px-3 py-1.5">
+                  <span className="text-sm truncate">{TASK_LABELS[task] ?? task}</span>
+                  <Input
+                    className="h-8 font-mono"
+                    value={config.models[task] ?? ''}
+                    onChange={(e) => update({ models: { ...config.models, [task]: e.target.value } })}
+                    placeholder={defaultModels[config.provider]}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex items-center justify-end gap-3">
+              {saved && <span className="text-xs text-muted-foreground">Saved</span>}
+              <Button size="sm" onClick={saveConfig} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import { Loader2 } from 'lucide-react'
+import '@mdxeditor/editor/style.css'
+
+interface MarkdownEditorProps {
+  markdown: string
+  onChange: (markdown: string) => void
+  readOnly?: boolean
+}
+
+// MDXEditor needs the DOM, so it's only loaded in the browser. `markdown` is the initial
+// value; give the editor a new `key` to load different content.
+export const MarkdownEditor = dynamic<MarkdownEditorProps>(async () => {
+  const {
+    MDXEditor,
+    headingsPlugin,
+    listsPlugin,
+    quotePlugin,
+    thematicBreakPlugin,
+    markdownShortcutPlugin,
+    toolbarPlugin,
+    UndoRedo,
+    BlockTypeSelect,
+    BoldItalicUnderlineToggles,
+    ListsToggle,
+  } = await import('@mdxeditor/editor')
+
+  return function Editor({ markdown, onChange, readOnly }: MarkdownEditorProps) {
+    return (
+      <MDXEditor
+        markdown={markdown}
+        onChange={onChange}
+        readOnly={readOnly}
+        className="rounded-md border"
+        contentEditableClassName="min-h-[200px] text-sm [&_p]:my-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_h1]:text-lg [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-medium"
+        plugins={[
+          headingsPlugin(),
+          listsPlugin(),
+          quotePlugin(),
+          thematicBreakPlugin(),
+          markdownShortcutPlugin(),
+          ...(readOnly ? [] : [toolbarPlugin({
+            toolbarContents: () => (
+              <>
+                <UndoRedo />
+                <BlockTypeSelect />
+                <BoldItalicUnderlineToggles />
+                <ListsToggle />
+              </>
+            ),
+          })]),
+        ]}
+      />
+    )
+  }
+}, {
+  ssr: false,
+  loading: () => (
+    <div className="flex justify-center py-6">
+      <Loader2 className="h-5 w-5 animate-spin text-primary" />
+    </div>
+  ),
+})
@@ -0,0 +1,321 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Check, FlaskConical, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+interface PromptVersion {
+  id: string
+  version: number
+  system: string
+  user: string
+  note?: string
+  active: boolean
+  createdAt: string
+}
+
+interface Prompt {
+  name: string
+  label: string
+  description: string
+  variables: Record<string, string>
+  userTemplate: boolean
+  versions: PromptVersion[]
+}
+
+interface Comparison {
+  paper: { id: string; title: string }
+  outputs: {
+    versionId: string
+    version: number
+    fields?: { tag: string; question: string; thesis: string; method: string }
+    error?: string
+  }[]
+}
+
+const FIELDS = ['tag', 'question', 'thesis', 'method'] as const
+
+export function PromptsPanel() {
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [selected, setSelected] = useState('extraction')
+  const [draft, setDraft] = useState({ system: '', user: '', note: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [papers, setPapers] = useState<{ id: string; title: string }[]>([])
+  const [pair, setPair] = useState<[string, string]>(['', ''])
+  const [paperId, setPaperId] = useState('')
+  const [comparing, setComparing] = useState(false)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [compareError, setCompareError] = useState<string | null>(null)
+
+  const prompt = prompts.find(p => p.name === selected)
+
+  const loadPrompts = async () => {
+    try {
+      const response = await fetch('/api/prompts')
+      const data = await response.json()
+      setPrompts(data.prompts || [])
+      return data.prompts as Prompt[]
+    } catch (err) {
+      console.error('Error loading prompts:', err)
+      return []
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Start the editor from the active version, and the comparison from the two newest
+  const selectPrompt = (name: string, list: Prompt[] = prompts) => {
+    const next = list.find(p => p.name === name)
+    const active = next?.versions.find(v => v.active) ?? next?.versions[0]
+    setSelected(name)
+    setDraft({ system: active?.system ?? '', user: active?.user ?? '', note: '' })
+    setPair([next?.versions[1]?.id ?? next?.versions[0]?.id ?? '', next?.versions[0]?.id ?? ''])
+    setComparison(null)
+    setError(null)
+  }
+
+  useEffect(() => {
+    loadPrompts().then(list => selectPrompt('extraction', list))
+    fetch('/api/prompts/compare')
+      .then(response => response.json())
+      .then(data => {
+        setPapers(data.papers || [])
+        if (data.papers?.length) setPaperId(data.papers[0].id)
+      })
+      .catch(err => console.error('Error loading papers to compare on:', err))
+  }, [])
+
+  const saveVersion = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: selected, ...draft }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save prompt')
+        return
+      }
+      await loadPrompts()
+      setDraft(d => ({ ...d, note: '' }))
+      setPair(p => [p[1] || p[0], data.id])
+    } catch (err) {
+      console.error('Error saving prompt:', err)
+      setError('Failed to save prompt')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const activate = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch('/api/prompts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to activate version')
+        return
+      }
+      await loadPrompts()
+    } catch (err) {
+      console.error('Error activating prompt version:', err)
+      setError('Failed to activate version')
+    }
+  }
+
+  const compare = async () => {
+    setComparing(true)
+    setCompareError(null)
+    setComparison(null)
+    try {
+      const response = await fetch('/api/prompts/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paperId, versionIds: pair }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setCompareError(data.error || 'Comparison failed')
+        return
+      }
+      setComparison(data)
+    } catch (err) {
+      console.error('Error comparing prompts:', err)
+      setCompareError('Comparison failed')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const loadIntoEditor = (version: PromptVersion) => {
+    setDraft({ system: version.system, user: version.user, note: '' })
+  }
+
+  const versionSelect = (slot: 0 | 1) => (
+    <Select value={pair[slot]} onValueChange={(id) => setPair(p => slot === 0 ? [id, p[1]] : [p[0], id])}>
+      <SelectTrigger className="w-full"><SelectValue placeholder="Version" /></SelectTrigger>
+      <SelectContent>
+        {prompt?.versions.map(v => (
+          <SelectItem key={v.id} value={v.id}>v{v.version}{v.active ? ' (active)' : ''}{v.note ? ` · ${v.note}` : ''}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prompts</CardTitle>
+        <CardDescription>
+          Every LLM prompt is a versioned template. Saving an edit adds a version without using
+          it; activate a version to switch. Cards, feedback, and reports record the version that
+          wrote them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || !prompt ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Select value={selected} onValueChange={(name) => selectPrompt(name)}>
+              <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {prompts.map(p => <SelectItem key={p.name} value={p.name}>{p.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{prompt.description}</p>
+
+            <div className="rounded-md border divide-y">
+              {prompt.versions.map(version => (
+                <div key={version.id} className="flex items-center gap-3 px-3 py-2">
+                  <span className="text-sm font-medium tabular-nums w-8">v{version.version}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{version.note || <span className="text-muted-foreground">No note</span>}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => loadIntoEditor(version)}>Edit</Button>
+                  {version.active ? (
+                    <span className="flex items-center gap-1 text-xs text-primary w-16 justify-end">
+                      <Check className="h-3 w-3" /> Active
+                    </span>
+                  ) : (
+                    <Button variant="outline" size="sm" className="w-16" onClick={() => activate(version.id)}>Use</Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>System</Label>
+              <Textarea
+                value={draft.system}
+                onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+                className="font-mono text-xs min-h-32"
+              />
+              {prompt.userTemplate && (
+                <>
+                  <Label>User</Label>
+                  <Textarea
+                    value={draft.user}
+                    onChange={(e) => setDraft({ ...draft, user: e.target.value })}
+                    className="font-mono text-xs min-h-48"
+                  />
+                </>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(prompt.variables).map(([variable, description]) => (
+                  <code key={variable} className="rounded bg-muted px-1.5 py-0.5 text-xs" title={description}>
+                    {`{{${variable}}}`}
+                  </code>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={draft.note}
+                  onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                  placeholder="What changed (optional)"
+                />
+                <Button onClick={saveVersion} disabled={saving || !draft.system.trim()}>
+                  {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Save version
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+
+            {selected === 'extraction' && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4 text-muted-foreground" />
+                  <Label>Compare two versions on a paper</Label>
+                </div>
+                <Select value={paperId} onValueChange={setPaperId}>
+                  <SelectTrigger className="w-full"><SelectValue placeholder="No extracted papers yet" /></SelectTrigger>
+                  <SelectContent>
+                    {papers.map(p => <SelectItem key={p.id} value={p.id}>{p.title}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  {versionSelect(0)}
+                  {versionSelect(1)}
+                  <Button onClick={compare} disabled={comparing || !paperId || !pair[0] || !pair[1]}>
+                    {comparing && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Run
+                  </Button>
+                </div>
+                {compareError && <p className="text-sm text-destructive">{compareError}</p>}
+
+                {comparison && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {comparison.outputs.map((output, i) => {
+                      const version = prompt.versions.find(v => v.id === output.versionId)
+                      return (
+                        <div key={`${output.versionId}-${i}`} className={cn("rounded-md border p-3 space-y-2", version?.active && "border-primary")}>
+                          <p className="text-xs font-medium text-muted-foreground">v{output.version}</p>
+                          {output.error ? (
+                            <p className="text-sm text-destructive">{output.error}</p>
+                          ) : FIELDS.map(field => (
+                            <div key={field}>
+                              <p className="text-xs uppercase tracking-wide text-muted-foreground">{field}</p>
+                              <p className="text-sm">{output.fields?.[field] || '—'}</p>
+                            </div>
+                          ))}
+                          {!output.error && !version?.active && (
+                            <Button size="sm" variant="outline" className="w-full" onClick={() => activate(output.versionId)}>
+                              Use v{output.version}
+                            </Button>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+
+interface FilterRule {
+  id?: string
+  field: string
+  match: string
+  pattern: string
+  action: string
+  enabled: boolean
+  hits?: number
+  lastHitAt?: string
+}
+
+const ACTIONS = [
+  { value: 'mute', label: 'Mute' },
+  { value: 'boost', label: 'Boost' },
+  { value: 'include', label: 'Always include' },
+]
+
+const FIELDS = [
+  { value: 'text', label: 'Title or abstract' },
+  { value: 'title', label: 'Title' },
+  { value: 'abstract', label: 'Abstract' },
+  { value: 'category', label: 'Category' },
+  { value: 'author', label: 'Author' },
+]
+
+const MATCHES = [
+  { value: 'keyword', label: 'Keyword' },
+  { value: 'regex', label: 'Regex' },
+]
+
+const ACTION_COLORS: Record<string, string> = {
+  mute: 'bg-red-500/15 text-red-700 dark:text-red-300',
+  boost: 'bg-green-500/15 text-green-700 dark:text-green-300',
+  include: 'bg-sky-500/15 text-sky-700 dark:text-sky-300',
+}
+
+const labelOf = (options: { value: string; label: string }[], value: string) =>
+  options.find(o => o.value === value)?.label ?? value
+
+const emptyRule = (): FilterRule => ({ field: 'text', match: 'keyword', pattern: '', action: 'mute', enabled: true })
+
+export function RulesPanel() {
+  const [rules, setRules] = useState<FilterRule[]>([])
+  const [form, setForm] = useState<FilterRule>(emptyRule)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/filter-rules')
+      const data = await response.json()
+      setRules(data.rules || [])
+    } catch (err) {
+      console.error('Error loading filter rules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  const addRule = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/filter-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to add rule')
+        return
+      }
+      setForm({ ...emptyRule(), action: form.action, field: form.field, match: form.match })
+      await loadRules()
+    } catch (err) {
+      console.error('Error adding filter rule:', err)
+      setError('Failed to add rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleRule = async (rule: FilterRule, enabled: boolean) => {
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled } : r))
+    try {
+      await fetch('/api/filter-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...rule, enabled }),
+      })
+    } catch (err) {
+      console.error('Error updating filter rule:', err)
+      await loadRules()
+    }
+  }
+
+  const deleteRule = async (rule: FilterRule) => {
+    setRules(prev => prev.filter(r => r.id !== rule.id))
+    try {
+      await fetch(`/api/filter-rules?id=${encodeURIComponent(rule.id!)}`, { method: 'DELETE' })
+    } catch (err) {
+      console.error('Error deleting filter rule:', err)
+      await loadRules()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rules</CardTitle>
+        <CardDescription>
+          Applied to new candidates before the relevance filter. Muted papers are dropped,
+          always-included ones skip the filter, and boosted ones always reach it as priorities.
+          Keywords match whole words, categories include their subcategories, and regexes
+          ignore case.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rules yet.</p>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {rules.map(rule => (
+                  <div key={rule.id} className={cn("flex items-center gap-3 px-3 py-2", !rule.enabled && "opacity-50")}>
+                    <span className={cn("px-2 py-0.5 rounded text-xs font-medium shrink-0", ACTION_COLORS[rule.action])}>
+                      {labelOf(ACTIONS, rule.action)}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">
+                        <span className="text-muted-foreground">{labelOf(FIELDS, rule.field)}: </span>
+                        <span className="font-mono">{rule.match === 'regex' ? `/${rule.pattern}/` : rule.pattern}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {rule.hits ?? 0} {rule.hits === 1 ? 'hit' : 'hits'}
+                        {rule.lastHitAt && `, last ${formatDistanceToNow(new Date(rule.lastHitAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <Switch checked={rule.enabled} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                    <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)} title="Delete rule">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="grid grid-cols-3 gap-2">
+                <Select value={form.action} onValueChange={(action) => setForm({ ...form, action })}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {ACTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={form.field} onValueChange={(field) => setForm({ ...form, field })}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {FIELDS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select value={form.match} onValueChange={(match) => setForm({ ...form, match })}>
+                  <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {MATCHES.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={form.pattern}
+                  onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && form.pattern.trim() && addRule()}
+                  placeholder={form.field === 'category' ? 'cs.CV' : form.field === 'author' ? 'Author name' : 'differential privacy'}
+                  className={cn(form.match === 'regex' && "font-mono")}
+                />
+                <Button onClick={addRule} disabled={saving || !form.pattern.trim()}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                  Add
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
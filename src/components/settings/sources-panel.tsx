@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+interface SourceProfile {
+  id?: string
+  name: string
+  active: boolean
+  categories: string[]
+  searchQueries: string[]
+  excludedCategories: string[]
+  biorxivServers: string[]
+  biorxivCategories: string[]
+  openreviewVenues: string[]
+}
+
+// Form state keeps the raw text so typing separators doesn't fight the parser
+interface ProfileForm {
+  id?: string
+  name: string
+  active: boolean
+  categories: string
+  searchQueries: string
+  excludedCategories: string
+  biorxivServers: string[]
+  biorxivCategories: string
+  openreviewVenues: string
+}
+
+const RXIV_SERVERS = [
+  { name: 'biorxiv', label: 'bioRxiv' },
+  { name: 'medrxiv', label: 'medRxiv' },
+]
+
+const toForm = (profile: SourceProfile): ProfileForm => ({
+  id: profile.id,
+  name: profile.name,
+  active: profile.active,
+  categories: profile.categories.join(', '),
+  searchQueries: profile.searchQueries.join('\n'),
+  excludedCategories: profile.excludedCategories.join(', '),
+  biorxivServers: profile.biorxivServers,
+  biorxivCategories: profile.biorxivCategories.join(', '),
+  openreviewVenues: profile.openreviewVenues.join('\n'),
+})
+
+const splitList = (text: string) => text.split(/[\s,]+/).filter(Boolean)
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+export function SourcesPanel() {
+  const [profiles, setProfiles] = useState<SourceProfile[]>([])
+  const [defaults, setDefaults] = useState<SourceProfile | null>(null)
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProfiles = async (selectId?: string) => {
+    try {
+      const response = await fetch('/api/source-profiles')
+      const data = await response.json()
+      setProfiles(data.profiles || [])
+      setDefaults({ ...data.defaults, active: false })
+      const selected = (data.profiles || []).find((p: SourceProfile) => p.id === selectId)
+        || (data.profiles || []).find((p: SourceProfile) => p.active)
+        || (data.profiles || [])[0]
+      setForm(selected ? toForm(selected) : null)
+    } catch (err) {
+      console.error('Error loading source profiles:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles()
+  }, [])
+
+  const startNewProfile = () => {
+    setError(null)
+    setForm(toForm({
+      ...(defaults || {
+        categories: [],
+        searchQueries: [],
+        excludedCategories: [],
+        biorxivServers: [],
+        biorxivCategories: [],
+        openreviewVenues: [],
+      }),
+      id: undefined,
+      name: profiles.length === 0 ? 'Default' : '',
+      active: profiles.length === 0,
+    }))
+  }
+
+  const saveProfile = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/source-profiles', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id,
+          name: form.name,
+          active: form.active,
+          categories: splitList(form.categories),
+          searchQueries: splitLines(form.searchQueries),
+          excludedCategories: splitList(form.excludedCategories),
+          biorxivServers: form.biorxivServers,
+          // bioRxiv subject names contain spaces, so only commas separate them
+          biorxivCategories: form.biorxivCategories.split(',').map(c => c.trim()).filter(Boolean),
+          openreviewVenues: splitLines(form.openreviewVenues),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to save profile')
+        return
+      }
+      await loadProfiles(data.profile.id)
+    } catch (err) {
+      console.error('Error saving source profile:', err)
+      setError('Failed to save profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProfile = async () => {
+    if (!form?.id) return
+    try {
+      await fetch(`/api/source-profiles?id=${encodeURIComponent(form.id)}`, { method: 'DELETE' })
+      await loadProfiles()
+    } catch (err) {
+      console.error('Error deleting source profile:', err)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sources</CardTitle>
+        <CardDescription>
+          Which arXiv, bioRxiv/medRxiv, and OpenReview listings ingestion harvests. The active profile is used on every run
+          {profiles.length === 0 && '; until you save one, the built-in default applies'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {profiles.map(profile => (
+                <Button
+                  key={profile.id}
+                  variant={form?.id === profile.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => { setError(null); setForm(toForm(profile)) }}
+                >
+                  {profile.name}
+                  {profile.active && <span className="ml-1 text-xs opacity-70">(active)</span>}
+                </Button>
+              ))}
+              <Button variant="ghost" size="sm" onClick={startNewProfile}>
+                <Plus className="h-4 w-4 mr-1" />
+                New profile
+              </Button>
+            </div>
+
+            {form && (
+              <div className="space-y-4 border-t pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="source-name">Name</Label>
+                  <Input
+                    id="source-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="source-categories">Categories</Label>
+                  <Input
+                    id="source-categories"
+                    value={form.categories}
+                    onChange={(e) => setForm({ ...form, categories: e.target.value })}
+                    placeholder="cs.LG, cs.CL, stat.ML"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="source-queries">Search queries</Label>
+                  <Textarea
+                    id="source-queries"
+                    value={form.searchQueries}
+                    onChange={(e) => setForm({ ...form, searchQueries: e.target.value })}
+                    placeholder={'abs:"speculative decoding"\nti:interpretability AND cat:cs.LG'}
+                    className="font-mono text-sm"
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">One arXiv search_query expression per line.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="source-excluded">Excluded categories</Label>
+                  <Input
+                    id="source-excluded"
+                    value={form.excludedCategories}
+                    onChange={(e) => setForm({ ...form, excludedCategories: e.target.value })}
+                    placeholder="cs.CV, cs.CR"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2 border-t pt-4">
+                  <Label>bioRxiv / medRxiv</Label>
+                  <div className="flex gap-4">
+                    {RXIV_SERVERS.map(server => (
+                      <div key={server.name} className="flex items-center gap-2">
+                        <Switch
+                          id={`source-${server.name}`}
+                          checked={form.biorxivServers.includes(server.name)}
+                          onCheckedChange={(checked) => setForm({
+                            ...form,
+                            biorxivServers: checked
+                              ? [...form.biorxivServers, server.name]
+                              : form.biorxivServers.filter(s => s !== server.name),
+                          })}
+                        />
+                        <Label htmlFor={`source-${server.name}`} className="font-normal">{server.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  <Input
+                    id="source-biorxiv-categories"
+                    value={form.biorxivCategories}
+                    onChange={(e) => setForm({ ...form, biorxivCategories: e.target.value })}
+                    placeholder="bioinformatics, neuroscience"
+                    disabled={form.biorxivServers.length === 0}
+                  />
+                  <p className="text-xs text-muted-foreground">Subject categories to keep, comma-separated. Leave empty for all.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="source-openreview">OpenReview venues</Label>
+                  <Textarea
+                    id="source-openreview"
+                    value={form.openreviewVenues}
+                    onChange={(e) => setForm({ ...form, openreviewVenues: e.target.value })}
+                    placeholder="ICLR.cc/2026/Conference"
+                    className="font-mono text-sm"
+                    rows={2}
+                  />
+                  <p className="text-xs text-muted-foreground">One venue ID per line; its submissions are harvested.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="source-active"
+                    checked={form.active}
+                    onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+                  />
+                  <Label htmlFor="source-active">Use for ingestion</Label>
+                </div>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <div className={cn("flex gap-2", form.id ? "justify-between" : "justify-end")}>
+                  {form.id && (
+                    <Button variant="ghost" size="sm" onClick={deleteProfile}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={saveProfile} disabled={saving}>
+                    {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
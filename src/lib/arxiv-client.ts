@@ -0,0 +1,225 @@
+import { createHash } from 'crypto'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+
+// Every request to arXiv goes through arxivFetch, which:
+//  - queues requests per host, spaced at least MIN_INTERVAL_MS apart (arXiv asks for
+//    ~3s between API calls),
+//  - retries 429/5xx responses and network errors with exponential backoff, honoring
+//    Retry-After up to MAX_RETRY_AFTER_MS (a longer wait returns the response instead),
+//  - caches 200 API (Atom feed) responses on disk for up to CACHE_MAX_AGE_MS and revalidates
+//    them with If-None-Match / If-Modified-Since; HTML and e-prints aren't cached,
+//  - in ARXIV_HTTP_MODE=record, saves every response as a fixture; in =replay, serves only
+//    from fixtures and never touches the network, so the app can run offline.
+
+export interface ArxivResponse {
+  url: string
+  status: number
+  ok: boolean
+  headers: Record<string, string>
+  body: Buffer
+  fromCache: boolean
+}
+
+interface StoredResponse {
+  url: string
+  status: number
+  headers: Record<string, string>
+  body: string // base64
+  fetchedAt: string
+}
+
+export type ArxivHttpMode = 'live' | 'record' | 'replay'
+
+const MIN_INTERVAL_MS: Record<string, number> = {
+  'export.arxiv.org': 3000,
+}
+const DEFAULT_MIN_INTERVAL_MS = 1000
+const DEFAULT_TIMEOUT_MS = 30000
+const MAX_RETRIES = 4
+const BASE_BACKOFF_MS = 2000
+const MAX_RETRY_AFTER_MS = 60000
+const KEPT_HEADERS = ['content-type', 'etag', 'last-modified']
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+const CACHE_PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+// Queue state is shared across module copies (server.ts and the Next.js bundle)
+// so the spacing holds for the whole process
+const globalForArxiv = globalThis as unknown as {
+  arxivQueues: Map<string, Promise<void>> | undefined
+  arxivLastRequestAt: Map<string, number> | undefined
+  arxivCachePrunedAt: number | undefined
+}
+const queues = globalForArxiv.arxivQueues ??= new Map()
+const lastRequestAt = globalForArxiv.arxivLastRequestAt ??= new Map()
+
+export function getArxivHttpMode(): ArxivHttpMode {
+  const mode = process.env.ARXIV_HTTP_MODE
+  return mode === 'record' || mode === 'replay' ? mode : 'live'
+}
+
+const cacheDir = () => process.env.ARXIV_CACHE_DIR || path.join(process.cwd(), '.cache', 'arxiv')
+const fixturesDir = () => process.env.ARXIV_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'arxiv')
+const keyFor = (url: string) => createHash('sha256').update(url).digest('hex').slice(0, 24)
+
+// Only Atom API responses are small and re-requested enough to be worth keeping
+const isCacheable = (url: string) => new URL(url).pathname.startsWith('/api/')
+
+async function readStored(dir: string, url: string): Promise<StoredResponse | null> {
+  try {
+    const stored: StoredResponse = JSON.parse(await readFile(path.join(dir, `${keyFor(url)}.json`), 'utf8'))
+    return stored.url === url ? stored : null
+  } catch {
+    return null
+  }
+}
+
+async function writeStored(dir: string, response: ArxivResponse) {
+  const stored: StoredResponse = {
+    url: response.url,
+    status: response.status,
+    headers: response.headers,
+    body: response.body.toString('base64'),
+    fetchedAt: new Date().toISOString(),
+  }
+  try {
+    await mkdir(dir, { recursive: true })
+    await writeFile(path.join(dir, `${keyFor(response.url)}.json`), JSON.stringify(stored))
+  } catch (error) {
+    console.warn(`Could not write arXiv response for ${response.url}:`, (error as Error).message)
+  }
+}
+
+// Delete cached responses older than CACHE_MAX_AGE_MS, at most once per CACHE_PRUNE_INTERVAL_MS
+async function pruneCache() {
+  const now = Date.now()
+  if (now - (globalForArxiv.arxivCachePrunedAt ?? 0) < CACHE_PRUNE_INTERVAL_MS) return
+  globalForArxiv.arxivCachePrunedAt = now
+  try {
+    for (const file of await readdir(cacheDir())) {
+      const filePath = path.join(cacheDir(), file)
+      if (now - (await stat(filePath)).mtimeMs > CACHE_MAX_AGE_MS) await unlink(filePath)
+    }
+  } catch (error) {
+    console.warn('Could not prune the arXiv cache:', (error as Error).message)
+  }
+}
+
+function fromStored(stored: StoredResponse): ArxivResponse {
+  return {
+    url: stored.url,
+    status: stored.status,
+    ok: stored.status >= 200 && stored.status < 300,
+    headers: stored.headers,
+    body: Buffer.from(stored.body, 'base64'),
+    fromCache: true,
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Run `task` after every earlier request to the same host, at least the host's interval after the last one
+function enqueue<T>(host: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(host) ?? Promise.resolve()
+  const result = previous.then(async () => {
+    const interval = MIN_INTERVAL_MS[host] ?? DEFAULT_MIN_INTERVAL_MS
+    const wait = (lastRequestAt.get(host) ?? 0) + interval - Date.now()
+    if (wait > 0) await sleep(wait)
+    try {
+      return await task()
+    } finally {
+      lastRequestAt.set(host, Date.now())
+    }
+  })
+  queues.set(host, result.then(() => undefined, () => undefined))
+  return result
+}
+
+// Retry-After (seconds or an HTTP date) when it parses, else exponential backoff. Null when
+// the server asks for a longer wait than MAX_RETRY_AFTER_MS: not worth holding the queue for.
+function retryDelay(attempt: number, retryAfter: string | null): number | null {
+  if (retryAfter) {
+    const seconds = Number(retryAfter.trim())
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+    if (!isNaN(ms)) return ms > MAX_RETRY_AFTER_MS ? null : Math.max(ms, 0)
+  }
+  return BASE_BACKOFF_MS * 2 ** attempt
+}
+
+async function fetchWithRetries(url: string, headers: Record<string, string>, timeoutMs: number): Promise<Response> {
+  const host = new URL(url).host
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await enqueue(host, () => fetch(url, { headers, signal: AbortSignal.timeout(timeoutMs) }))
+      const retryable = response.status === 429 || response.status >= 500
+      if (!retryable || attempt >= MAX_RETRIES) return response
+
+      const retryAfter = response.headers.get('retry-after')
+      const delay = retryDelay(attempt, retryAfter)
+      if (delay === null) {
+        console.log(`arXiv returned ${response.status} for ${url} with Retry-After ${retryAfter}; giving up`)
+        return response
+      }
+      console.log(`arXiv returned ${response.status} for ${url}; retrying in ${delay}ms`)
+      await sleep(delay)
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) throw error
+      const delay = retryDelay(attempt, null)!
+      console.log(`arXiv request failed for ${url} (${(error as Error).message}); retrying in ${delay}ms`)
+      await sleep(delay)
+    }
+  }
+}
+
+// Fetch an arXiv URL (API, HTML, or e-print) through the shared queue, cache, and record/replay layer
+export async function arxivFetch(url: string, options: { timeoutMs?: number } = {}): Promise<ArxivResponse> {
+  const mode = getArxivHttpMode()
+
+  if (mode === 'replay') {
+    const fixture = await readStored(fixturesDir(), url)
+    if (fixture) return fromStored(fixture)
+    console.warn(`No recorded arXiv response for ${url}`)
+    return { url, status: 404, ok: false, headers: {}, body: Buffer.alloc(0), fromCache: false }
+  }
+
+  const cacheable = isCacheable(url)
+  const stored = cacheable ? await readStored(cacheDir(), url) : null
+  const cached = stored && Date.now() - Date.parse(stored.fetchedAt) <= CACHE_MAX_AGE_MS ? stored : null
+  const conditional: Record<string, string> = {}
+  if (cached?.headers.etag) conditional['If-None-Match'] = cached.headers.etag
+  if (cached?.headers['last-modified']) conditional['If-Modified-Since'] = cached.headers['last-modified']
+
+  const response = await fetchWithRetries(url, conditional, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+  let result: ArxivResponse
+  if (response.status === 304 && cached) {
+    result = fromStored(cached)
+  } else {
+    const headers: Record<string, string> = {}
+    for (const name of KEPT_HEADERS) {
+      const value = response.headers.get(name)
+      if (value) headers[name] = value
+    }
+    result = {
+      url,
+      status: response.status,
+      ok: response.ok,
+      headers,
+      body: Buffer.from(await response.arrayBuffer()),
+      fromCache: false,
+    }
+    if (cacheable && response.status === 200 && (headers.etag || headers['last-modified'])) {
+      await writeStored(cacheDir(), result)
+      await pruneCache()
+    }
+  }
+
+  if (mode === 'record') await writeStored(fixturesDir(), result)
+  return result
+}
+
+// Convenience wrapper for text responses (Atom feeds, HTML)
+export async function arxivFetchText(url: string, options: { timeoutMs?: number } = {}): Promise<{ ok: boolean; status: number; text: string }> {
+  const response = await arxivFetch(url, options)
+  return { ok: response.ok, status: response.status, text: response.body.toString('utf8') }
+}
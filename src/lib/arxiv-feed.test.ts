@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseArxivFeed, parseArxivId } from '@/lib/arxiv-feed'
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/2211.17192v2</id>
+    <updated>2023-05-18T17:36:23Z</updated>
+    <published>2022-11-30T17:33:28Z</published>
+    <title>Fast Inference from Transformers
+      via Speculative Decoding</title>
+    <summary>  Inference from large autoregressive models is slow.  </summary>
+    <author><name>Yaniv Leviathan</name><arxiv:affiliation>Google Research</arxiv:affiliation></author>
+    <author><name>Matan Kalman</name></author>
+    <arxiv:comment>ICML 2023</arxiv:comment>
+    <link href="http://arxiv.org/abs/2211.17192v2" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/2211.17192v2" rel="related" type="application/pdf"/>
+    <arxiv:primary_category term="cs.LG"/>
+    <category term="cs.LG"/>
+    <category term="cs.CL"/>
+  </entry>
+  <entry>
+    <id>http://arxiv.org/api/errors#incorrect_id_format_for_1234</id>
+    <title>Error</title>
+    <summary>incorrect id format for 1234</summary>
+  </entry>
+</feed>`
+
+describe('parseArxivId', () => {
+  it('splits new-style IDs and URLs into ID and version', () => {
+    assert.deepEqual(parseArxivId('2401.12345v3'), { id: '2401.12345', version: 3 })
+    assert.deepEqual(parseArxivId('http://arxiv.org/abs/2211.17192'), { id: '2211.17192', version: 1 })
+  })
+
+  it('parses old-style IDs', () => {
+    assert.deepEqual(parseArxivId('hep-th/9901001v2'), { id: 'hep-th/9901001', version: 2 })
+    assert.deepEqual(parseArxivId('math.GT/0309136'), { id: 'math.GT/0309136', version: 1 })
+  })
+
+  it('accepts an arXiv: prefix and abs, pdf, and html URLs', () => {
+    assert.deepEqual(parseArxivId('arXiv:2401.12345'), { id: '2401.12345', version: 1 })
+    assert.deepEqual(parseArxivId('https://arxiv.org/pdf/2401.12345v2'), { id: '2401.12345', version: 2 })
+    assert.deepEqual(parseArxivId('https://arxiv.org/html/hep-th/9901001'), { id: 'hep-th/9901001', version: 1 })
+  })
+
+  it('returns null for anything else', () => {
+    assert.equal(parseArxivId('not an id'), null)
+    assert.equal(parseArxivId('1234'), null)
+  })
+
+  it('does not pull an ID out of other strings that end in one', () => {
+    assert.equal(parseArxivId('https://arxiv.org/abs/2401.12345?foo=2401.12345'), null)
+    assert.equal(parseArxivId('https://example.com/papers/2401.12345'), null)
+    assert.equal(parseArxivId('10.1101/2401.12345'), null)
+    assert.equal(parseArxivId('x2401.12345'), null)
+  })
+})
+
+describe('parseArxivFeed', () => {
+  it('parses entries and drops ones without a usable ID, title, or date', t => {
+    t.mock.method(console, 'warn', () => {})
+    const papers = parseArxivFeed(FEED)
+    assert.equal(papers.length, 1)
+    assert.deepEqual(papers[0], {
+      id: '2211.17192',
+      version: 2,
+      title: 'Fast Inference from Transformers via Speculative Decoding',
+      authors: ['Yaniv Leviathan', 'Matan Kalman'],
+      authorAffiliations: { 'Yaniv Leviathan': ['Google Research'] },
+      abstract: 'Inference from large autoregressive models is slow.',
+      arxivUrl: 'http://arxiv.org/abs/2211.17192v2',
+      pdfUrl: 'http://arxiv.org/pdf/2211.17192v2',
+      publishedAt: '2022-11-30T17:33:28Z',
+      updatedAt: '2023-05-18T17:36:23Z',
+      primaryCategory: 'cs.LG',
+      categories: ['cs.LG', 'cs.CL'],
+      comment: 'ICML 2023',
+      journalRef: undefined,
+      doi: undefined,
+    })
+  })
+
+  it('returns nothing for a response that is not a feed', () => {
+    assert.deepEqual(parseArxivFeed('<html>Rate exceeded</html>'), [])
+  })
+})
@@ -0,0 +1,112 @@
+import { XMLParser } from 'fast-xml-parser'
+
+// Parsing of arXiv API responses and identifiers, apart from arxiv.ts so it loads without
+// the database
+
+export interface ArxivPaper {
+  id: string              // versionless arXiv ID, e.g. "2401.12345"
+  version: number
+  title: string
+  authors: string[]
+  authorAffiliations: Record<string, string[]>
+  abstract: string
+  arxivUrl: string
+  pdfUrl?: string
+  publishedAt: string
+  updatedAt: string
+  primaryCategory?: string
+  categories: string[]    // primary first, then cross-lists
+  comment?: string        // arxiv:comment, e.g. "Accepted at NeurIPS 2025"
+  journalRef?: string
+  doi?: string
+  content?: string
+}
+
+// New-style (2401.12345v2) and old-style (hep-th/9901001v1) identifiers, the whole string
+// or after an abs/pdf/html URL or an "arXiv:" prefix
+const ARXIV_ID_PATTERN = /^(?:(?:https?:\/\/)?(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf|html)\/|arxiv:)?(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v(\d+))?$/i
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  trimValues: true,
+  isArray: name => ['entry', 'author', 'link', 'category', 'arxiv:affiliation'].includes(name),
+})
+
+// Text nodes come back as a string, or as { '#text': ... } when the element has attributes
+function text(node: unknown): string {
+  if (node === undefined || node === null) return ''
+  if (typeof node === 'object') return text((node as Record<string, unknown>)['#text'])
+  return String(node).replace(/\s+/g, ' ').trim()
+}
+
+// Split an abs URL or bare ID into its versionless ID and version number
+export function parseArxivId(raw: string): { id: string; version: number } | null {
+  const match = raw.trim().match(ARXIV_ID_PATTERN)
+  if (!match) return null
+  return { id: match[1], version: match[2] ? parseInt(match[2]) : 1 }
+}
+
+function parseEntry(entry: any): ArxivPaper | null {
+  const parsedId = parseArxivId(text(entry.id))
+  if (!parsedId) return null
+
+  const title = text(entry.title)
+  const publishedAt = text(entry.published)
+  if (!title || !publishedAt || isNaN(new Date(publishedAt).getTime())) return null
+
+  const authors: string[] = []
+  const authorAffiliations: Record<string, string[]> = {}
+  for (const author of entry.author || []) {
+    const name = text(author.name)
+    if (!name) continue
+    authors.push(name)
+    const affiliations = (author['arxiv:affiliation'] || []).map(text).filter(Boolean)
+    if (affiliations.length > 0) authorAffiliations[name] = affiliations
+  }
+
+  const links: any[] = entry.link || []
+  const absLink = links.find(l => l.rel === 'alternate')
+  const pdfLink = links.find(l => l.title === 'pdf' || l.type === 'application/pdf')
+
+  const primaryCategory = entry['arxiv:primary_category']?.term
+  const categories = [primaryCategory, ...(entry.category || []).map((c: any) => c.term)]
+    .filter((term, i, all): term is string => !!term && all.indexOf(term) === i)
+
+  return {
+    id: parsedId.id,
+    version: parsedId.version,
+    title,
+    authors,
+    authorAffiliations,
+    abstract: text(entry.summary),
+    arxivUrl: absLink?.href || `https://arxiv.org/abs/${parsedId.id}v${parsedId.version}`,
+    pdfUrl: pdfLink?.href,
+    publishedAt,
+    updatedAt: text(entry.updated) || publishedAt,
+    primaryCategory,
+    categories,
+    comment: text(entry['arxiv:comment']) || undefined,
+    journalRef: text(entry['arxiv:journal_ref']) || undefined,
+    doi: text(entry['arxiv:doi']) || undefined,
+  }
+}
+
+// Parse an arXiv API Atom feed. Entries without a usable ID, title, or date
+// (including the API's own error entries) are dropped rather than guessed at.
+export function parseArxivFeed(xml: string): ArxivPaper[] {
+  const feed = parser.parse(xml)?.feed
+  if (!feed) return []
+
+  const papers: ArxivPaper[] = []
+  for (const entry of feed.entry || []) {
+    const paper = parseEntry(entry)
+    if (paper) {
+      papers.push(paper)
+    } else {
+      console.warn('Skipping malformed arXiv entry:', text(entry?.id) || '(no id)')
+    }
+  }
+  return papers
+}
@@ -0,0 +1,99 @@
+import { buildArxivQueries } from '@/lib/source-profiles'
+import { RECENT_DAYS, type DateRange, type SourceConfig } from '@/lib/sources/types'
+import { arxivFetchText } from '@/lib/arxiv-client'
+import { parseArxivFeed, type ArxivPaper } from '@/lib/arxiv-feed'
+
+// arXiv's submittedDate filter wants YYYYMMDDHHMM in UTC
+const toArxivDate = (date: Date) => date.toISOString().slice(0, 16).replace(/[-T:]/g, '')
+
+// Search arXiv for a source profile, sorted by submission date. Without a range
+// this returns recent papers; with one, papers submitted within it.
+export async function searchArxivPapers(
+  source: SourceConfig,
+  maxResults: number = 50,
+  offset: number = 0,
+  range?: DateRange,
+): Promise<ArxivPaper[]> {
+  const baseUrl = 'https://export.arxiv.org/api/query'
+
+  // Each query is sorted newest first. We fetch more than needed from each
+  // and deduplicate, since categories and search queries overlap.
+  let queries = buildArxivQueries(source)
+  if (queries.length === 0) return []
+  if (range) {
+    const submitted = `submittedDate:[${toArxivDate(range.from)} TO ${toArxivDate(range.to)}]`
+    queries = queries.map(q => `(${q}) AND ${submitted}`)
+  }
+
+  const perQuery = Math.ceil(maxResults / queries.length)
+  const searchQueries = queries.map(query =>
+    `search_query=${encodeURIComponent(query)}&start=${offset}&max_results=${perQuery}&sortBy=submittedDate&sortOrder=descending`
+  )
+  const excluded = new Set(source.excludedCategories)
+
+  const allPapers: ArxivPaper[] = []
+  const seenIds = new Set<string>()
+
+  // Only keep papers from the requested range, or from the last RECENT_DAYS days
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - RECENT_DAYS)
+  const inRange = (publishedAt: string) => {
+    const published = new Date(publishedAt)
+    return range ? published >= range.from && published <= range.to : published >= cutoffDate
+  }
+
+  try {
+    for (const searchQuery of searchQueries) {
+      const response = await arxivFetchText(`${baseUrl}?${searchQuery}`)
+      if (!response.ok) {
+        console.error(`arXiv API returned ${response.status} for ${searchQuery}`)
+        continue
+      }
+
+      for (const paper of parseArxivFeed(response.text)) {
+        // The query already excludes these; this catches cross-lists it misses
+        if (paper.categories.some(c => excluded.has(c))) continue
+
+        // Skip duplicates, short abstracts, and papers outside the date window
+        if (!seenIds.has(paper.id) && paper.abstract.length > 100 && inRange(paper.publishedAt)) {
+          seenIds.add(paper.id)
+          allPapers.push(paper)
+        }
+      }
+    }
+
+    console.log(range
+      ? `Fetched ${allPapers.length} papers submitted ${range.from.toISOString()} to ${range.to.toISOString()}`
+      : `Fetched ${allPapers.length} papers from last ${RECENT_DAYS} days`)
+
+    return allPapers
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .slice(0, maxResults)
+
+  } catch (error) {
+    console.error('Error fetching from arXiv:', error)
+    return []
+  }
+}
+
+
+// Fetch current metadata for specific arXiv IDs (latest version of each), in batches
+export async function fetchArxivPapersByIds(ids: string[]): Promise<ArxivPaper[]> {
+  const baseUrl = 'https://export.arxiv.org/api/query'
+  const batchSize = 50
+  const papers: ArxivPaper[] = []
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch = ids.slice(i, i + batchSize)
+    try {
+      const response = await arxivFetchText(`${baseUrl}?id_list=${batch.map(encodeURIComponent).join(',')}&max_results=${batch.length}`)
+      if (!response.ok) throw new Error(`arXiv API returned ${response.status}`)
+      papers.push(...parseArxivFeed(response.text))
+    } catch (error) {
+      console.error(`Error fetching arXiv IDs ${batch.join(',')}:`, error)
+    }
+  }
+  return papers
+}
+
+export { parseArxivFeed, parseArxivId, type ArxivPaper } from '@/lib/arxiv-feed'
@@ -0,0 +1,16 @@
+// Author names are matched loosely: case, accents, punctuation and spacing are ignored,
+// so "José  García-López" and "Jose Garcia Lopez" are the same author
+export function authorKey(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+// A paper's authors as stored for lookup, "|key|key|", so finding an author's papers is a
+// `contains` on "|key|" that ignores the same differences authorKey does
+export function authorKeysField(names: string[]): string {
+  return `|${names.map(authorKey).join('|')}|`
+}
@@ -0,0 +1,55 @@
+import { db } from '@/lib/db'
+import { embedPapers, similarity } from '@/lib/embeddings'
+
+// Papers at least this similar (cosine, title + abstract embeddings) to a cluster's
+// representative are stacked under it
+const CLUSTER_SIMILARITY = parseFloat(process.env.CLUSTER_SIMILARITY || '0.85')
+
+interface ClusterCandidate {
+  id: string
+  title: string
+  abstract: string
+  score?: number   // filter relevance; the best-scored paper represents its cluster
+}
+
+// Greedy clustering: take papers best first, and put each under the first representative
+// it's close enough to, or make it a new representative. Returns representative id →
+// sibling ids, for clusters with at least one sibling.
+export function groupBySimilarity(
+  papers: ClusterCandidate[],
+  vectors: Map<string, number[]>,
+  threshold: number = CLUSTER_SIMILARITY,
+): Map<string, string[]> {
+  const representatives: string[] = []
+  const clusters = new Map<string, string[]>()
+  const ordered = [...papers].sort((a, b) => (b.score ?? -1) - (a.score ?? -1))
+  for (const paper of ordered) {
+    const vector = vectors.get(paper.id)
+    const home = vector && representatives.find(rep => similarity(vectors.get(rep)!, vector) >= threshold)
+    if (home) {
+      clusters.get(home)!.push(paper.id)
+    } else if (vector) {
+      representatives.push(paper.id)
+      clusters.set(paper.id, [])
+    }
+  }
+  return new Map([...clusters].filter(([, siblings]) => siblings.length > 0))
+}
+
+// Cluster one run's selected papers and record each sibling's representative, so the
+// feed shows the cluster as one stacked card. Returns how many papers were stacked.
+export async function clusterSelectedPapers(papers: ClusterCandidate[]): Promise<number> {
+  if (papers.length < 2) return 0
+  const vectors = await embedPapers(papers)
+  const clusters = groupBySimilarity(papers, vectors)
+
+  let stacked = 0
+  for (const [representative, siblings] of clusters) {
+    await db.paper.updateMany({
+      where: { id: { in: siblings } },
+      data: { clusterOf: representative },
+    })
+    stacked += siblings.length
+  }
+  return stacked
+}
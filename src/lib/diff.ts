@@ -0,0 +1,54 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Longest-common-subsequence diff over two token lists, merged into runs
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const n = before.length
+  const m = after.length
+
+  // lcs[i][j] = LCS length of before[i:] and after[j:]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      push('equal', before[i++])
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', before[i++])
+    } else {
+      push('added', after[j++])
+    }
+  }
+  while (i < n) push('removed', before[i++])
+  while (j < m) push('added', after[j++])
+  return parts
+}
+
+// Word-level diff. Whitespace stays attached to the preceding word so runs read naturally.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.match(/\S+\s*/g) || []
+  return diffTokens(tokenize(before), tokenize(after))
+}
+
+// Line-level diff with one part per line (text without the newline)
+export function diffLines(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.split('\n').map(line => line + '\n')
+  return diffTokens(tokenize(before), tokenize(after))
+    .flatMap(part => part.text.slice(0, -1).split('\n').map(text => ({ type: part.type, text })))
+}
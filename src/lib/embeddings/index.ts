@@ -0,0 +1,98 @@
+import { db } from '@/lib/db'
+import { createOpenAIEmbeddingProvider } from '@/lib/embeddings/openai'
+import { stubEmbeddingProvider } from '@/lib/embeddings/stub'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+
+let warnedNoKey = false
+
+// Unset, EMBEDDING_PROVIDER is 'openai' when OPENAI_API_KEY is set and 'stub' otherwise, so
+// a keyless or offline setup (LLM_PROVIDER=mock) still pre-ranks and clusters
+function defaultEmbeddingProvider(): string {
+  if (process.env.OPENAI_API_KEY) return 'openai'
+  if (!warnedNoKey) {
+    console.log('No OPENAI_API_KEY; using stub embeddings (set EMBEDDING_PROVIDER to choose)')
+    warnedNoKey = true
+  }
+  return 'stub'
+}
+
+// EMBEDDING_PROVIDER picks where embeddings come from:
+//  - 'openai' (default with an API key): OpenAI's API, model EMBEDDING_MODEL (default
+//    text-embedding-3-small)
+//  - 'local': an OpenAI-compatible server at EMBEDDING_BASE_URL (default Ollama's), model
+//    EMBEDDING_MODEL (default nomic-embed-text)
+//  - 'stub' (default without one): deterministic word hashing, no network
+export function getEmbeddingProvider(): EmbeddingProvider {
+  switch (process.env.EMBEDDING_PROVIDER || defaultEmbeddingProvider()) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider({
+        name: 'openai',
+        model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    case 'local':
+      return createOpenAIEmbeddingProvider({
+        name: 'local',
+        model: process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        baseURL: process.env.EMBEDDING_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.EMBEDDING_API_KEY,
+      })
+    case 'stub':
+      return stubEmbeddingProvider
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${process.env.EMBEDDING_PROVIDER}`)
+  }
+}
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0))
+  return norm === 0 ? vector : vector.map(x => x / norm)
+}
+
+// Dot product; equals cosine similarity for the unit vectors we store
+export function similarity(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i]
+  return sum
+}
+
+// Mean direction of a set of unit vectors, itself normalized
+export function centroid(vectors: number[][]): number[] | null {
+  if (vectors.length === 0) return null
+  const sum = new Array(vectors[0].length).fill(0)
+  for (const vector of vectors) vector.forEach((x, i) => { sum[i] += x })
+  return normalize(sum)
+}
+
+// Vectors are stored as little-endian Float32 bytes
+const toBytes = (vector: number[]) => Buffer.from(new Float32Array(vector).buffer)
+const fromBytes = (bytes: Buffer) =>
+  Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4))
+
+// Unit-length embeddings of each paper's title and abstract under the current provider.
+// Stored ones are reused; missing ones are computed and stored.
+export async function embedPapers(
+  papers: { id: string; title: string; abstract: string }[],
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+): Promise<Map<string, number[]>> {
+  const stored = await db.paperEmbedding.findMany({
+    where: { model: provider.key, paperId: { in: papers.map(p => p.id) } },
+  })
+  const vectors = new Map<string, number[]>(stored.map(e => [e.paperId, fromBytes(e.vector)]))
+
+  const missing = papers.filter(p => !vectors.has(p.id))
+  if (missing.length > 0) {
+    const embedded = await provider.embed(missing.map(p => `${p.title}\n\n${p.abstract}`))
+    for (const [i, paper] of missing.entries()) {
+      const vector = normalize(embedded[i])
+      vectors.set(paper.id, vector)
+      await db.paperEmbedding.upsert({
+        where: { paperId_model: { paperId: paper.id, model: provider.key } },
+        update: { vector: toBytes(vector) },
+        create: { paperId: paper.id, model: provider.key, vector: toBytes(vector) },
+      })
+    }
+    console.log(`Embedded ${missing.length} papers with ${provider.key}`)
+  }
+  return vectors
+}
@@ -0,0 +1,32 @@
+import OpenAI from 'openai'
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+
+const BATCH_SIZE = 64
+
+// OpenAI's embeddings API, or any server that speaks it (Ollama, LM Studio, llama.cpp,
+// text-embeddings-inference) when given a baseURL
+export function createOpenAIEmbeddingProvider(options: {
+  name: string
+  model: string
+  baseURL?: string
+  apiKey?: string
+}): EmbeddingProvider {
+  const client = new OpenAI({ apiKey: options.apiKey || 'unused', baseURL: options.baseURL })
+
+  return {
+    name: options.name,
+    key: `${options.name}:${options.model}`,
+
+    async embed(texts) {
+      const vectors: number[][] = []
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const response = await client.embeddings.create({
+          model: options.model,
+          input: texts.slice(i, i + BATCH_SIZE),
+        })
+        vectors.push(...response.data.sort((a, b) => a.index - b.index).map(d => d.embedding))
+      }
+      return vectors
+    },
+  }
+}
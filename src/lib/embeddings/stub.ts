@@ -0,0 +1,31 @@
+import type { EmbeddingProvider } from '@/lib/embeddings/types'
+
+const DIMENSIONS = 256
+
+// FNV-1a, so the same word always lands in the same bucket
+function hash(word: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < word.length; i++) {
+    h ^= word.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Deterministic, offline bag-of-words hashing. Papers that share vocabulary land close
+// together, which is enough for development and tests without an API key.
+export const stubEmbeddingProvider: EmbeddingProvider = {
+  name: 'stub',
+  key: `stub:hash-${DIMENSIONS}`,
+
+  async embed(texts) {
+    return texts.map(text => {
+      const vector = new Array(DIMENSIONS).fill(0)
+      for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+        const h = hash(word)
+        vector[h % DIMENSIONS] += (h & 0x80000000) ? -1 : 1
+      }
+      return vector
+    })
+  },
+}
@@ -0,0 +1,7 @@
+// Turns text into vectors. Vectors from different providers or models aren't comparable,
+// so stored embeddings are keyed by `key`.
+export interface EmbeddingProvider {
+  name: string   // 'openai' | 'local' | 'stub'
+  key: string    // provider and model, e.g. 'openai:text-embedding-3-small'
+  embed(texts: string[]): Promise<number[][]>
+}
@@ -0,0 +1,334 @@
+import { readFile } from 'fs/promises'
+import { completeJson } from '@/lib/llm'
+import { getLLMConfig, usingMockLLM } from '@/lib/llm/settings'
+import { getEmbeddingProvider, normalize, similarity } from '@/lib/embeddings'
+import { processPaperWithLLM, type ExtractedFields } from '@/lib/pipeline'
+import { findPromptVersion, getActivePrompt, type ActivePrompt } from '@/lib/prompts'
+import { PAPER_SOURCES, parseQualifiedId, qualifyId } from '@/lib/sources'
+import { withRetries } from '@/lib/work-queue'
+import { sharedPhrases, tokenF1 } from '@/lib/extraction-scores'
+import type { SourcePaper } from '@/lib/sources/types'
+
+// Offline evaluation of the extraction step: run processPaperWithLLM over a golden set of
+// papers with hand-written reference fields, score each field against its reference, and
+// check that the question doesn't give the thesis or method away.
+
+export const EXTRACTION_FIELDS = ['tag', 'question', 'thesis', 'method'] as const
+export type ExtractionField = typeof EXTRACTION_FIELDS[number]
+
+// One entry of the golden set. Papers without a title and abstract are looked up in their source.
+export interface GoldenPaper {
+  id: string                 // source-qualified, e.g. "arxiv:2302.04761"
+  title?: string
+  abstract?: string
+  reference: ExtractedFields
+}
+
+// A prompt version and model to evaluate
+export interface EvalVariant {
+  label: string
+  prompt: ActivePrompt
+  model: string
+}
+
+export interface FieldScore {
+  string: number      // token F1 against the reference, 0–1
+  embedding: number   // cosine similarity to the reference, 0–1
+  judge?: number      // the judge's 1–5 rating of agreement with the reference
+}
+
+// A question leaks when it hints at the paper's answer. The judge decides; phrases the
+// question shares with the thesis or method are reported alongside as evidence.
+export interface LeakCheck {
+  flagged: boolean
+  judge?: boolean
+  reason?: string
+  sharedPhrases: string[]
+}
+
+export interface PaperEvaluation {
+  paperId: string
+  title: string
+  fields: ExtractedFields
+  failed: boolean   // extraction failed, after retries
+  error?: string
+  scores: Record<ExtractionField, FieldScore>
+  leak: LeakCheck
+}
+
+export interface EvalSummary {
+  string: Record<ExtractionField, number>
+  embedding: Record<ExtractionField, number>
+  judge?: Record<ExtractionField, number>
+  leaks: number
+  failures: number
+}
+
+export interface EvalRun {
+  label: string
+  promptVersion: number
+  promptVersionId: string
+  model: string
+  embeddingModel: string
+  papers: PaperEvaluation[]
+  summary: EvalSummary
+}
+
+export interface EvalOptions {
+  judge?: boolean   // default true; off skips the LLM judge and leaves leaks to shared phrases
+}
+
+const EVAL_ROUTE = 'eval'
+
+function isFields(value: any): value is ExtractedFields {
+  return !!value && EXTRACTION_FIELDS.every(field => typeof value[field] === 'string')
+}
+
+// Read a golden set (a JSON array of GoldenPaper) and resolve each entry to a paper
+export async function loadGoldenSet(file: string): Promise<{ golden: GoldenPaper; paper: SourcePaper }[]> {
+  const entries = JSON.parse(await readFile(file, 'utf8'))
+  if (!Array.isArray(entries) || entries.length === 0) throw new Error(`${file} must be a non-empty JSON array`)
+  entries.forEach((entry: any, i) => {
+    if (typeof entry?.id !== 'string') throw new Error(`${file}[${i}]: id is required`)
+    if (!isFields(entry.reference)) throw new Error(`${file}[${i}] (${entry.id}): reference needs ${EXTRACTION_FIELDS.join(', ')}`)
+  })
+  const golden = entries as GoldenPaper[]
+
+  // Entries that carry their own title and abstract need no network
+  const papers = new Map<string, SourcePaper>()
+  for (const entry of golden) {
+    if (!entry.title || !entry.abstract) continue
+    const { source, externalId } = parseQualifiedId(entry.id)
+    papers.set(entry.id, {
+      id: qualifyId(source, externalId), source, externalId, version: 1,
+      title: entry.title, authors: [], authorAffiliations: {}, abstract: entry.abstract,
+      url: '', publishedAt: '', updatedAt: '', categories: [],
+    })
+  }
+  for (const source of PAPER_SOURCES) {
+    const wanted = golden.filter(g => !papers.has(g.id) && parseQualifiedId(g.id).source === source.name)
+    if (wanted.length === 0) continue
+    const found = await source.fetchByIds(wanted.map(g => parseQualifiedId(g.id).externalId))
+    for (const entry of wanted) {
+      const { externalId } = parseQualifiedId(entry.id)
+      const paper = found.find(p => p.externalId.toLowerCase() === externalId.toLowerCase())
+      if (paper) papers.set(entry.id, paper)
+    }
+  }
+
+  const missing = golden.filter(g => !papers.has(g.id))
+  if (missing.length > 0) throw new Error(`Not found in their sources: ${missing.map(g => g.id).join(', ')}`)
+  return golden.map(entry => ({ golden: entry, paper: papers.get(entry.id)! }))
+}
+
+// Every combination of the given extraction prompt versions and models. No versions means
+// the active one; no models means the one configured for extraction.
+export async function resolveVariants(promptVersions: number[], models: string[]): Promise<EvalVariant[]> {
+  const active = await getActivePrompt('extraction')
+  const prompts: ActivePrompt[] = []
+  for (const version of promptVersions.length ? promptVersions : [active.version]) {
+    const prompt = await findPromptVersion('extraction', version)
+    if (!prompt) throw new Error(`No extraction prompt v${version}`)
+    prompts.push(prompt)
+  }
+
+  // The mock provider ignores the model, so comparing models under it compares nothing
+  if (usingMockLLM()) models = ['mock']
+  else if (models.length === 0) models = [(await getLLMConfig()).models.extract]
+  const variants: EvalVariant[] = []
+  for (const prompt of prompts) {
+    for (const model of models) variants.push({ label: `v${prompt.version} · ${model}`, prompt, model })
+  }
+  return variants
+}
+
+const JUDGE_SYSTEM = 'You grade extracted summaries of research papers against hand-written references. Judge meaning, not wording: a paraphrase that makes the same claim scores as high as a copy. Always respond with valid JSON only.'
+
+interface Judgement {
+  tag: number
+  question: number
+  thesis: number
+  method: number
+  leak: boolean
+  leak_reason: string
+}
+
+const rating = { type: 'integer', enum: [1, 2, 3, 4, 5] }
+
+async function judgeExtraction(
+  paper: SourcePaper,
+  candidate: ExtractedFields,
+  reference: ExtractedFields,
+): Promise<Judgement> {
+  const show = (fields: ExtractedFields) => EXTRACTION_FIELDS.map(f => `${f.toUpperCase()}: ${fields[f]}`).join('\n')
+  return completeJson<Judgement>('judge', [
+    { role: 'system', content: JUDGE_SYSTEM },
+    {
+      role: 'user', content: `Paper: ${paper.title}
+
+Reference:
+${show(reference)}
+
+Candidate:
+${show(candidate)}
+
+Rate how well each candidate field matches the reference field, from 1 (unrelated or wrong) to 5 (same meaning). TAG is a subfield label; QUESTION is the open problem the paper addresses; THESIS is the belief that motivated the work; METHOD is the technical trick that operationalizes it.
+
+Then check the candidate QUESTION for leakage. It must name the problem area without hinting at the candidate's THESIS or METHOD: someone reading only the question should be able to propose a completely different answer. Set leak to true if it gives the thesis or method away, and say which words do in leak_reason (empty if none).`,
+    },
+  ], {
+    name: 'extraction_judgement',
+    schema: {
+      type: 'object',
+      properties: {
+        tag: rating,
+        question: rating,
+        thesis: rating,
+        method: rating,
+        leak: { type: 'boolean' },
+        leak_reason: { type: 'string' },
+      },
+      required: ['tag', 'question', 'thesis', 'method', 'leak', 'leak_reason'],
+      additionalProperties: false,
+    },
+  }, { route: EVAL_ROUTE, paperIds: [paper.id] })
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0
+
+const perField = (papers: PaperEvaluation[], score: (s: FieldScore) => number) =>
+  Object.fromEntries(EXTRACTION_FIELDS.map(field => [field, mean(papers.map(p => score(p.scores[field])))])) as Record<ExtractionField, number>
+
+// Run one variant over the golden set. Papers run one at a time to stay under rate limits.
+export async function evaluateVariant(
+  variant: EvalVariant,
+  set: { golden: GoldenPaper; paper: SourcePaper }[],
+  { judge = true }: EvalOptions = {},
+): Promise<EvalRun> {
+  const embedder = getEmbeddingProvider()
+  const papers: PaperEvaluation[] = []
+
+  for (const { golden, paper } of set) {
+    let fields: ExtractedFields = { tag: '', question: '', thesis: '', method: '' }
+    let error: string | undefined
+    try {
+      const processed = await withRetries(
+        () => processPaperWithLLM(paper, EVAL_ROUTE, { prompt: variant.prompt, model: variant.model }),
+        `Extraction for ${paper.id}`,
+      )
+      fields = { tag: processed.tag!, question: processed.question!, thesis: processed.thesis!, method: processed.method! }
+    } catch (e) {
+      error = (e as Error).message
+    }
+    const failed = error !== undefined
+
+    // Embedding APIs reject empty input, and a failed extraction scores 0 anyway
+    const vectors = failed ? [] : (await embedder.embed([
+      ...EXTRACTION_FIELDS.map(f => fields[f] || '(empty)'),
+      ...EXTRACTION_FIELDS.map(f => golden.reference[f]),
+    ])).map(normalize)
+
+    let judgement: Judgement | undefined
+    if (judge && !failed) {
+      try {
+        judgement = await judgeExtraction(paper, fields, golden.reference)
+      } catch (error) {
+        console.error('Error judging extraction for paper:', paper.title, error)
+      }
+    }
+
+    const scores = Object.fromEntries(EXTRACTION_FIELDS.map((field, i) => [field, {
+      string: tokenF1(fields[field], golden.reference[field]),
+      embedding: failed ? 0 : Math.max(0, similarity(vectors[i], vectors[i + EXTRACTION_FIELDS.length])),
+      judge: judge ? (failed ? 1 : judgement?.[field]) : undefined,
+    }])) as Record<ExtractionField, FieldScore>
+
+    const phrases = failed ? [] : sharedPhrases(fields)
+    papers.push({
+      paperId: paper.id,
+      title: paper.title,
+      fields,
+      failed,
+      error,
+      scores,
+      leak: {
+        flagged: !!judgement?.leak || phrases.length > 0,
+        judge: judgement?.leak,
+        reason: judgement?.leak_reason || undefined,
+        sharedPhrases: phrases,
+      },
+    })
+  }
+
+  const judged = papers.filter(p => EXTRACTION_FIELDS.every(f => p.scores[f].judge !== undefined))
+  return {
+    label: variant.label,
+    promptVersion: variant.prompt.version,
+    promptVersionId: variant.prompt.versionId,
+    model: variant.model,
+    embeddingModel: embedder.key,
+    papers,
+    summary: {
+      string: perField(papers, s => s.string),
+      embedding: perField(papers, s => s.embedding),
+      judge: judged.length ? perField(judged, s => s.judge!) : undefined,
+      leaks: papers.filter(p => p.leak.flagged).length,
+      failures: papers.filter(p => p.failed).length,
+    },
+  }
+}
+
+// A plain-text report: mean scores per variant (best in each row starred), each paper's
+// judge or embedding score by variant, every flagged question, and every failure
+export function formatComparison(runs: EvalRun[]): string {
+  const width = Math.max(14, ...runs.map(r => r.label.length + 2))
+  const row = (name: string, cells: string[]) => name.padEnd(20) + cells.map(c => c.padStart(width)).join('')
+  const lines: string[] = []
+
+  const metric = (name: string, values: (number | undefined)[], digits: number, lowerIsBetter = false) => {
+    const present = values.filter((v): v is number => v !== undefined)
+    const best = lowerIsBetter ? Math.min(...present) : Math.max(...present)
+    lines.push(row(name, values.map(v => v === undefined ? '— '
+      : `${v.toFixed(digits)}${runs.length > 1 && v === best ? '*' : ' '}`)))
+  }
+
+  lines.push(row('', runs.map(r => `${r.label} `)))
+  for (const field of EXTRACTION_FIELDS) {
+    lines.push(field.toUpperCase())
+    metric('  string F1', runs.map(r => r.summary.string[field]), 2)
+    metric('  embedding', runs.map(r => r.summary.embedding[field]), 2)
+    metric('  judge (1–5)', runs.map(r => r.summary.judge?.[field]), 2)
+  }
+  metric('Leaky questions', runs.map(r => r.summary.leaks), 0, true)
+  metric('Failed extractions', runs.map(r => r.summary.failures), 0, true)
+
+  const judged = runs.every(r => r.summary.judge)
+  lines.push('', `Per paper: mean ${judged ? 'judge rating' : 'embedding similarity'} over the four fields (! = leaky question)`)
+  for (const [i, paper] of runs[0].papers.entries()) {
+    lines.push(row(paper.title.length > 19 ? `${paper.title.slice(0, 18)}…` : paper.title, runs.map(r => {
+      const result = r.papers[i]
+      if (result.failed) return 'failed '
+      const score = mean(EXTRACTION_FIELDS.map(f => (judged ? result.scores[f].judge : result.scores[f].embedding) ?? 0))
+      return `${score.toFixed(2)}${result.leak.flagged ? '!' : ' '}`
+    })))
+  }
+
+  for (const run of runs) {
+    const leaky = run.papers.filter(p => p.leak.flagged)
+    if (leaky.length === 0) continue
+    lines.push('', `Leaky questions, ${run.label}:`)
+    for (const paper of leaky) {
+      lines.push(`  ${paper.title}`, `    Q: ${paper.fields.question}`)
+      if (paper.leak.reason) lines.push(`    Judge: ${paper.leak.reason}`)
+      if (paper.leak.sharedPhrases.length) lines.push(`    Shared with thesis/method: ${paper.leak.sharedPhrases.join(', ')}`)
+    }
+  }
+
+  for (const run of runs) {
+    const failed = run.papers.filter(p => p.failed)
+    if (failed.length === 0) continue
+    lines.push('', `Failed extractions, ${run.label}:`)
+    for (const paper of failed) lines.push(`  ${paper.title}: ${paper.error}`)
+  }
+  return lines.join('\n')
+}
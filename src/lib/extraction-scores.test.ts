@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { sharedPhrases, tokenF1 } from '@/lib/extraction-scores'
+
+describe('tokenF1', () => {
+  it('is 1 for the same tokens, ignoring case and punctuation', () => {
+    assert.equal(tokenF1('Speculative decoding, fast!', 'speculative Decoding fast'), 1)
+  })
+
+  it('is 0 with no tokens in common', () => {
+    assert.equal(tokenF1('sparse autoencoders', 'dense retrieval'), 0)
+  })
+
+  it('is the harmonic mean of token precision and recall', () => {
+    // 2 of 4 candidate tokens are in the 2-token reference: precision 0.5, recall 1
+    assert.equal(tokenF1('the model uses tools', 'uses tools'), 2 * 0.5 * 1 / 1.5)
+  })
+
+  it('counts a repeated token only as often as the reference has it', () => {
+    // overlap 1: precision 1/3, recall 1/2
+    assert.equal(tokenF1('tool tool tool', 'tool use'), 0.4)
+  })
+
+  it('treats two empty strings as a match, and one empty string as none', () => {
+    assert.equal(tokenF1('', '...'), 1)
+    assert.equal(tokenF1('', 'method'), 0)
+    assert.equal(tokenF1('method', ''), 0)
+  })
+})
+
+describe('sharedPhrases', () => {
+  it('finds word pairs the question shares with the thesis or method, ignoring stopwords and plurals', () => {
+    const phrases = sharedPhrases({
+      tag: 'agents/tool use',
+      question: 'How can models learn to call tools for arithmetic?',
+      thesis: 'A model can judge for itself when to call tools.',
+      method: 'Fine-tune on sampled calls.',
+    })
+    assert.deepEqual(phrases, ['call tool'])
+  })
+
+  it('finds nothing when only single words are shared', () => {
+    assert.deepEqual(sharedPhrases({ tag: '', question: 'Why are models slow?', thesis: 'Slow models waste memory.', method: '' }), [])
+  })
+})
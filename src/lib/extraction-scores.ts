@@ -0,0 +1,50 @@
+import type { ExtractedFields } from '@/lib/pipeline'
+
+// String scores for the extraction eval (see extraction-eval), kept apart from it so they
+// load without the database
+
+const STOPWORDS = new Set(('the and for with that this from into onto over than then when what which who whom ' +
+  'whose why how can could should would will does did doing done are was were been being have has had not ' +
+  'but nor its their them they our your you all any each more most some such only own same very just about ' +
+  'between through during without within across also there here where these those one two use used using ' +
+  'make makes made way ways need needs').split(' '))
+
+const tokens = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) || []
+
+// Content words with a crude plural strip, so "tools" matches "tool"
+const contentWords = (text: string) => tokens(text)
+  .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+  .map(word => word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+
+// Token-level F1, as in extractive QA benchmarks
+export function tokenF1(candidate: string, reference: string): number {
+  const a = tokens(candidate)
+  const b = tokens(reference)
+  if (a.length === 0 || b.length === 0) return a.length === b.length ? 1 : 0
+  const counts = new Map<string, number>()
+  for (const token of b) counts.set(token, (counts.get(token) ?? 0) + 1)
+  let overlap = 0
+  for (const token of a) {
+    const left = counts.get(token) ?? 0
+    if (left > 0) {
+      overlap++
+      counts.set(token, left - 1)
+    }
+  }
+  if (overlap === 0) return 0
+  const precision = overlap / a.length
+  const recall = overlap / b.length
+  return 2 * precision * recall / (precision + recall)
+}
+
+// Adjacent content-word pairs the question shares with the thesis or method. Single shared
+// words are expected (both talk about the same problem); a shared phrase usually means the
+// question names the answer.
+export function sharedPhrases(fields: ExtractedFields): string[] {
+  const pairs = (text: string) => {
+    const words = contentWords(text)
+    return words.slice(1).map((word, i) => `${words[i]} ${word}`)
+  }
+  const answer = new Set([...pairs(fields.thesis), ...pairs(fields.method)])
+  return [...new Set(pairs(fields.question).filter(pair => answer.has(pair)))]
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { selectWithinMix, type MixCandidate } from '@/lib/feed-mix-selection'
+
+const candidate = (id: string, tag: string | undefined, score: number, exploration = false): MixCandidate =>
+  ({ id, tag, score, exploration })
+
+describe('selectWithinMix', () => {
+  it('picks the best-scored papers when there are no quotas', () => {
+    const candidates = [candidate('a', 'rl', 3), candidate('b', 'nlp', 9), candidate('c', 'rl', 6)]
+    const result = selectWithinMix(candidates, 2, { quotas: {}, exploration: 0 })
+    assert.deepEqual(result.selected, ['b', 'c'])
+    assert.equal(result.cut.get('a'), 'Below the cut for this run')
+    assert.deepEqual(result.shortfalls, [])
+  })
+
+  it('fills minimums before taking the rest by score', () => {
+    const candidates = [
+      candidate('a', 'nlp', 9), candidate('b', 'nlp', 8), candidate('c', 'nlp', 7),
+      candidate('d', 'vision', 2),
+    ]
+    const result = selectWithinMix(candidates, 2, { quotas: { vision: { min: 0.5 } }, exploration: 0 })
+    assert.deepEqual(result.selected, ['a', 'd'])
+  })
+
+  it('keeps a tag under its maximum, rounding the maximum up', () => {
+    const candidates = [
+      candidate('a', 'nlp', 9), candidate('b', 'nlp', 8), candidate('c', 'nlp', 7),
+      candidate('d', 'vision', 1), candidate('e', undefined, 0),
+    ]
+    // max 0.3 of 4 papers rounds up to 2
+    const result = selectWithinMix(candidates, 4, { quotas: { nlp: { max: 0.3 } }, exploration: 0 })
+    assert.deepEqual(result.selected, ['a', 'b', 'd', 'e'])
+    assert.equal(result.cut.get('c'), 'Over the quota for nlp')
+  })
+
+  it('reports minimums there were not enough papers to meet', () => {
+    const candidates = [candidate('a', 'nlp', 9), candidate('b', 'vision', 1), candidate('c', 'nlp', 5)]
+    const result = selectWithinMix(candidates, 3, { quotas: { vision: { min: 0.7 } }, exploration: 0 })
+    assert.deepEqual(result.shortfalls, ['vision: 1 of 2'])
+    assert.deepEqual(result.selected, ['a', 'b', 'c'])
+  })
+
+  it('says a paper was outscored only when topics were balanced', () => {
+    const candidates = [candidate('a', 'nlp', 9), candidate('b', 'nlp', 8), candidate('c', 'vision', 1)]
+    const result = selectWithinMix(candidates, 2, { quotas: { vision: { min: 0.5 } }, exploration: 0 })
+    assert.deepEqual(result.selected, ['a', 'c'])
+    assert.equal(result.cut.get('b'), 'Outscored by papers kept to balance topics')
+  })
+
+  it('reports a minimum left unmet when the profile slots run out', () => {
+    const candidates = [
+      candidate('a', 'nlp', 9), candidate('b', 'nlp', 8), candidate('c', 'vision', 7), candidate('d', 'vision', 6),
+      candidate('x', 'rl', 0, true), candidate('y', 'rl', 0, true),
+    ]
+    // Exploration takes 2 of 4 slots; nlp's minimum fills the other 2
+    const result = selectWithinMix(candidates, 4, { quotas: { nlp: { min: 0.5 }, vision: { min: 0.5 } }, exploration: 0.5 })
+    assert.deepEqual(result.selected, ['a', 'b', 'x', 'y'])
+    assert.deepEqual(result.shortfalls, ['vision: 0 of 2'])
+  })
+
+  it('reserves the exploration share, rounded down, for exploration picks', () => {
+    const candidates = [
+      candidate('a', 'nlp', 9), candidate('b', 'nlp', 8), candidate('c', 'nlp', 7),
+      candidate('x', 'rl', 0, true), candidate('y', 'rl', 0, true),
+    ]
+    // 0.4 of 3 papers rounds down to 1 exploration slot
+    const result = selectWithinMix(candidates, 3, { quotas: {}, exploration: 0.4 })
+    assert.deepEqual(result.selected, ['a', 'b', 'x'])
+    assert.equal(result.cut.get('y'), 'Not picked for exploration')
+  })
+})
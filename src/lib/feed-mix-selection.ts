@@ -0,0 +1,117 @@
+// What a feed mix is and how it picks a run's papers. Storage is in feed-mix.ts; this
+// module doesn't load the database.
+
+// Shares (0-1) of a run's selected papers a topic tag must have at least / may have at most
+export interface TagQuota {
+  min?: number
+  max?: number
+}
+
+// How each ingestion run's picks are balanced across TOPIC_TAGS, and what share of them
+// is reserved for papers picked outside the interest profile
+export interface FeedMix {
+  quotas: Record<string, TagQuota>
+  exploration: number   // 0-MAX_EXPLORATION
+}
+
+export const MAX_EXPLORATION = 0.5
+
+export const DEFAULT_FEED_MIX: FeedMix = { quotas: {}, exploration: 0 }
+
+// With quotas set, the filter picks this many times the target so there's room to rebalance
+export const QUOTA_OVERSELECT = 1.5
+
+// Returns an error message, or null if the mix is usable
+export function validateFeedMix(mix: FeedMix, tags: readonly string[]): string | null {
+  if (!(mix.exploration >= 0 && mix.exploration <= MAX_EXPLORATION)) {
+    return `Exploration must be between 0 and ${MAX_EXPLORATION * 100}%`
+  }
+  let minTotal = 0
+  for (const [tag, quota] of Object.entries(mix.quotas)) {
+    if (!tags.includes(tag)) return `Unknown tag: ${tag}`
+    const { min = 0, max = 1 } = quota
+    if (!(min >= 0 && min <= 1 && max >= 0 && max <= 1)) return `Quotas for ${tag} must be between 0 and 100%`
+    if (min > max) return `The minimum for ${tag} is above its maximum`
+    minTotal += min
+  }
+  if (minTotal > 1) return 'Minimums add up to more than 100%'
+  return null
+}
+
+export const hasQuotas = (mix: FeedMix) =>
+  Object.values(mix.quotas).some(q => q.min !== undefined || q.max !== undefined)
+
+export interface MixCandidate {
+  id: string
+  tag?: string
+  score?: number
+  exploration: boolean   // picked outside the profile, not by the filter
+}
+
+export interface MixResult {
+  selected: string[]
+  cut: Map<string, string>   // id → why it was left out
+  shortfalls: string[]       // minimums there weren't enough papers to meet
+}
+
+// Choose `targetCount` papers: first the best-scored papers of each tag up to its minimum,
+// then the rest of the profile slots by score, then the exploration slots, never putting
+// a tag over its maximum. Minimums and the exploration share of `targetCount` are rounded
+// down; maximums are rounded up so small runs aren't starved. Untagged papers aren't
+// subject to quotas.
+export function selectWithinMix(
+  candidates: MixCandidate[],
+  targetCount: number,
+  mix: FeedMix,
+): MixResult {
+  const byScore = (a: MixCandidate, b: MixCandidate) => (b.score ?? -1) - (a.score ?? -1)
+  const profile = candidates.filter(c => !c.exploration).sort(byScore)
+  const explore = candidates.filter(c => c.exploration)
+  const exploreSlots = Math.min(explore.length, Math.floor(targetCount * mix.exploration))
+  const profileSlots = targetCount - exploreSlots
+
+  const counts = new Map<string, number>()
+  const chosen = new Set<string>()
+  const maxFor = (tag?: string) => {
+    const max = tag ? mix.quotas[tag]?.max : undefined
+    return max === undefined ? Infinity : Math.ceil(max * targetCount)
+  }
+  const minFor = (tag: string) => Math.min(Math.floor((mix.quotas[tag]?.min ?? 0) * targetCount), maxFor(tag))
+  const take = (c: MixCandidate) => {
+    chosen.add(c.id)
+    if (c.tag) counts.set(c.tag, (counts.get(c.tag) ?? 0) + 1)
+  }
+  const fits = (c: MixCandidate) => !chosen.has(c.id) && (counts.get(c.tag ?? '') ?? 0) < maxFor(c.tag)
+
+  for (const tag of Object.keys(mix.quotas)) {
+    profile.filter(c => c.tag === tag).slice(0, Math.min(minFor(tag), profileSlots - chosen.size)).forEach(take)
+  }
+  for (const c of profile) {
+    if (chosen.size >= profileSlots) break
+    if (fits(c)) take(c)
+  }
+  const profileChosen = chosen.size
+  for (const c of explore) {
+    if (chosen.size >= profileChosen + exploreSlots) break
+    if (fits(c)) take(c)
+  }
+
+  // A minimum can go unmet for want of papers with the tag or of slots to put them in
+  const shortfalls: string[] = []
+  for (const tag of Object.keys(mix.quotas)) {
+    const min = minFor(tag)
+    const count = counts.get(tag) ?? 0
+    if (count < min) shortfalls.push(`${tag}: ${count} of ${min}`)
+  }
+
+  const balanced = hasQuotas(mix)
+  const cut = new Map<string, string>()
+  for (const c of candidates) {
+    if (chosen.has(c.id)) continue
+    const overMax = (counts.get(c.tag ?? '') ?? 0) >= maxFor(c.tag)
+    cut.set(c.id, c.exploration ? 'Not picked for exploration'
+      : !balanced ? 'Below the cut for this run'
+      : overMax ? `Over the quota for ${c.tag}` : 'Outscored by papers kept to balance topics')
+  }
+  return { selected: candidates.filter(c => chosen.has(c.id)).map(c => c.id), cut, shortfalls }
+}
@@ -0,0 +1,19 @@
+import { db } from '@/lib/db'
+import { DEFAULT_FEED_MIX, type FeedMix } from '@/lib/feed-mix-selection'
+
+export async function getFeedMix(): Promise<FeedMix> {
+  const row = await db.feedMix.findUnique({ where: { id: 'default' } })
+  return row ? { quotas: JSON.parse(row.quotas), exploration: row.exploration } : DEFAULT_FEED_MIX
+}
+
+export async function saveFeedMix(mix: FeedMix): Promise<FeedMix> {
+  const data = { quotas: JSON.stringify(mix.quotas), exploration: mix.exploration }
+  await db.feedMix.upsert({ where: { id: 'default' }, update: data, create: { id: 'default', ...data } })
+  return mix
+}
+
+export {
+  DEFAULT_FEED_MIX, MAX_EXPLORATION, QUOTA_OVERSELECT,
+  hasQuotas, selectWithinMix, validateFeedMix,
+  type FeedMix, type MixCandidate, type MixResult, type TagQuota,
+} from '@/lib/feed-mix-selection'
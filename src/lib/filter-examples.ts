@@ -0,0 +1,37 @@
+import { db } from '@/lib/db'
+
+// A paper the user labeled for the filter: rescued (relevant) or confirmed rejected
+export interface LabeledExample {
+  title: string
+  abstract: string
+  relevant: boolean
+}
+
+// How many of each label the filter prompt includes, most recent first
+const EXAMPLES_PER_LABEL = 8
+
+// Record a rescue or confirmed rejection; relabeling a paper replaces its label
+export async function labelFilterExample(paperId: string, relevant: boolean) {
+  await db.filterExample.upsert({
+    where: { paperId },
+    update: { relevant },
+    create: { paperId, relevant },
+  })
+}
+
+// Recent labels of each kind, for few-shot guidance in the filter prompt
+export async function getFilterExamples(perLabel: number = EXAMPLES_PER_LABEL): Promise<LabeledExample[]> {
+  const [rescued, rejected] = await Promise.all([true, false].map(relevant =>
+    db.filterExample.findMany({
+      where: { relevant },
+      orderBy: { updatedAt: 'desc' },
+      include: { paper: { select: { title: true, abstract: true } } },
+      take: perLabel,
+    })
+  ))
+  return [...rescued, ...rejected].map(e => ({
+    title: e.paper.title,
+    abstract: e.paper.abstract,
+    relevant: e.relevant,
+  }))
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applyFilterRules, describeRule, validateFilterRule, type FilterRule } from '@/lib/filter-rule-matching'
+import type { SourcePaper } from '@/lib/sources/types'
+
+const paper = (id: string, fields: Partial<SourcePaper> = {}): SourcePaper => ({
+  id,
+  source: 'arxiv',
+  externalId: id,
+  version: 1,
+  title: '',
+  authors: [],
+  authorAffiliations: {},
+  abstract: '',
+  url: '',
+  publishedAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  categories: [],
+  ...fields,
+})
+
+const rule = (id: string, fields: Partial<FilterRule>): FilterRule =>
+  ({ id, field: 'text', match: 'keyword', pattern: '', action: 'include', enabled: true, ...fields })
+
+describe('applyFilterRules', () => {
+  const diffusion = paper('p1', { title: 'Diffusion models for robotics', categories: ['cs.RO'] })
+
+  it('lets include beat mute beat boost when rules disagree', () => {
+    const include = rule('include', { pattern: 'robotics' })
+    const mute = rule('mute', { field: 'category', pattern: 'cs', action: 'mute' })
+    const boost = rule('boost', { pattern: 'diffusion', action: 'boost' })
+
+    let outcome = applyFilterRules([diffusion], [boost, mute, include])
+    assert.equal(outcome.included.get('p1'), include)
+    assert.equal(outcome.muted.size, 0)
+    assert.equal(outcome.boosted.size, 0)
+
+    outcome = applyFilterRules([diffusion], [boost, mute])
+    assert.equal(outcome.muted.get('p1'), mute)
+    assert.equal(outcome.boosted.size, 0)
+
+    outcome = applyFilterRules([diffusion], [boost])
+    assert.deepEqual([...outcome.boosted], ['p1'])
+  })
+
+  it('counts hits for every matching rule, even ones that lost', () => {
+    const outcome = applyFilterRules([diffusion, paper('p2', { title: 'Robotics' })], [
+      rule('a', { pattern: 'robotics' }),
+      rule('b', { pattern: 'diffusion', action: 'mute' }),
+    ])
+    assert.deepEqual(Object.fromEntries(outcome.hits), { a: 2, b: 1 })
+  })
+
+  it('skips disabled rules', () => {
+    const outcome = applyFilterRules([diffusion], [rule('a', { pattern: 'diffusion', enabled: false })])
+    assert.equal(outcome.included.size, 0)
+    assert.equal(outcome.hits.size, 0)
+  })
+
+  it('matches keywords as whole words, categories with their subcategories, and authors loosely', () => {
+    const papers = [
+      paper('p1', { abstract: 'We study transformers.' }),
+      paper('p2', { abstract: 'Transformer-free models' }),
+      paper('p3', { categories: ['cs.CV'] }),
+      paper('p4', { authors: ['José García-López'] }),
+    ]
+    const outcome = applyFilterRules(papers, [
+      rule('word', { pattern: 'transformer' }),
+      rule('category', { field: 'category', pattern: 'cs' }),
+      rule('author', { field: 'author', pattern: 'jose garcia lopez' }),
+    ])
+    assert.deepEqual([...outcome.included].map(([id, r]) => `${id}:${r.id}`), ['p2:word', 'p3:category', 'p4:author'])
+  })
+})
+
+describe('validateFilterRule', () => {
+  it('rejects empty patterns and invalid regexes', () => {
+    assert.equal(validateFilterRule(rule('a', { pattern: '  ' })), 'A pattern is required')
+    assert.match(validateFilterRule(rule('a', { match: 'regex', pattern: '(' }))!, /^Invalid regex/)
+    assert.equal(validateFilterRule(rule('a', { match: 'regex', pattern: 'diffusion|flow' })), null)
+  })
+})
+
+describe('describeRule', () => {
+  it('quotes keywords and slashes regexes', () => {
+    assert.equal(describeRule(rule('a', { action: 'mute', pattern: 'diffusion' })), 'mute text "diffusion"')
+    assert.equal(describeRule(rule('a', { field: 'title', match: 'regex', pattern: 'privacy|DP-SGD' })), 'include title /privacy|DP-SGD/')
+  })
+})
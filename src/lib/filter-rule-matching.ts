@@ -0,0 +1,105 @@
+import { authorKey } from '@/lib/authors'
+import type { SourcePaper } from '@/lib/sources/types'
+
+// Filter rules themselves: what they are and how they match papers. Storage is in
+// filter-rules.ts; this module doesn't load the database.
+
+export const RULE_FIELDS = ['text', 'title', 'abstract', 'category', 'author'] as const
+export const RULE_MATCHES = ['keyword', 'regex'] as const
+export const RULE_ACTIONS = ['include', 'mute', 'boost'] as const
+
+// A deterministic rule applied to candidates before the LLM filter:
+//  - include: always relevant, skipping the filter
+//  - mute: never relevant, skipping the filter
+//  - boost: always reaches the filter (past pre-ranking), flagged as a priority
+// When rules disagree, include beats mute beats boost.
+export interface FilterRule {
+  id?: string
+  field: typeof RULE_FIELDS[number]      // 'text' is title or abstract
+  match: typeof RULE_MATCHES[number]
+  pattern: string
+  action: typeof RULE_ACTIONS[number]
+  enabled: boolean
+  hits?: number
+  lastHitAt?: string
+}
+
+// Returns an error message, or null if the rule is usable
+export function validateFilterRule(rule: FilterRule): string | null {
+  if (!RULE_FIELDS.includes(rule.field)) return `Unknown field: ${rule.field}`
+  if (!RULE_MATCHES.includes(rule.match)) return `Unknown match type: ${rule.match}`
+  if (!RULE_ACTIONS.includes(rule.action)) return `Unknown action: ${rule.action}`
+  if (!rule.pattern.trim()) return 'A pattern is required'
+  if (rule.match === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i')
+    } catch (error) {
+      return `Invalid regex: ${(error as Error).message}`
+    }
+  }
+  return null
+}
+
+// The values of a paper a rule looks at
+function fieldValues(paper: SourcePaper, field: FilterRule['field']): string[] {
+  switch (field) {
+    case 'text': return [paper.title, paper.abstract]
+    case 'title': return [paper.title]
+    case 'abstract': return [paper.abstract]
+    case 'category': return paper.categories
+    case 'author': return paper.authors
+  }
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Keywords match whole words in text, a category or its subcategories ("cs" matches
+// "cs.CV"), and author names loosely (see authorKey). Regexes are case-insensitive.
+function compileRule(rule: FilterRule): (paper: SourcePaper) => boolean {
+  const pattern = rule.pattern.trim()
+  let test: (value: string) => boolean
+  if (rule.match === 'regex') {
+    const regex = new RegExp(rule.pattern, 'i')
+    test = value => regex.test(value)
+  } else if (rule.field === 'category') {
+    const category = pattern.toLowerCase()
+    test = value => value.toLowerCase() === category || value.toLowerCase().startsWith(`${category}.`)
+  } else if (rule.field === 'author') {
+    const key = authorKey(pattern)
+    test = value => authorKey(value) === key
+  } else {
+    const regex = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegex(pattern)}($|[^\\p{L}\\p{N}])`, 'iu')
+    test = value => regex.test(value)
+  }
+  return paper => fieldValues(paper, rule.field).some(test)
+}
+
+export interface RuleOutcome {
+  included: Map<string, FilterRule>   // paper id → the rule that included it
+  muted: Map<string, FilterRule>
+  boosted: Set<string>
+  hits: Map<string, number>           // rule id → papers it matched
+}
+
+// Run every rule against every paper
+export function applyFilterRules(papers: SourcePaper[], rules: FilterRule[]): RuleOutcome {
+  const outcome: RuleOutcome = { included: new Map(), muted: new Map(), boosted: new Set(), hits: new Map() }
+  const compiled = rules.filter(r => r.enabled).map(rule => ({ rule, matches: compileRule(rule) }))
+
+  for (const paper of papers) {
+    const matched = compiled.filter(c => c.matches(paper)).map(c => c.rule)
+    for (const rule of matched) outcome.hits.set(rule.id!, (outcome.hits.get(rule.id!) ?? 0) + 1)
+
+    const include = matched.find(r => r.action === 'include')
+    const mute = matched.find(r => r.action === 'mute')
+    if (include) outcome.included.set(paper.id, include)
+    else if (mute) outcome.muted.set(paper.id, mute)
+    else if (matched.some(r => r.action === 'boost')) outcome.boosted.add(paper.id)
+  }
+  return outcome
+}
+
+// How a rule reads in a rejection reason or log line
+export function describeRule(rule: FilterRule): string {
+  return `${rule.action} ${rule.field} ${rule.match === 'regex' ? `/${rule.pattern}/` : `"${rule.pattern}"`}`
+}
@@ -0,0 +1,37 @@
+import type { FilterRule as FilterRuleRow } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { FilterRule } from '@/lib/filter-rule-matching'
+
+export function toFilterRule(row: FilterRuleRow): FilterRule {
+  return {
+    id: row.id,
+    field: row.field as FilterRule['field'],
+    match: row.match as FilterRule['match'],
+    pattern: row.pattern,
+    action: row.action as FilterRule['action'],
+    enabled: row.enabled,
+    hits: row.hits,
+    lastHitAt: row.lastHitAt?.toISOString(),
+  }
+}
+
+export async function getEnabledFilterRules(): Promise<FilterRule[]> {
+  const rows = await db.filterRule.findMany({ where: { enabled: true }, orderBy: { createdAt: 'asc' } })
+  return rows.map(toFilterRule)
+}
+
+export async function recordRuleHits(hits: Map<string, number>) {
+  const now = new Date()
+  for (const [id, count] of hits) {
+    await db.filterRule.update({
+      where: { id },
+      data: { hits: { increment: count }, lastHitAt: now },
+    })
+  }
+}
+
+export {
+  RULE_ACTIONS, RULE_FIELDS, RULE_MATCHES,
+  applyFilterRules, describeRule, validateFilterRule,
+  type FilterRule, type RuleOutcome,
+} from '@/lib/filter-rule-matching'
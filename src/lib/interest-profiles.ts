@@ -0,0 +1,77 @@
+import type { InterestProfile, InterestProfileVersion } from '@prisma/client'
+import { db } from '@/lib/db'
+
+// The profile ingestion starts with, saved as the first version the first time it's needed
+export const DEFAULT_INTERESTS = `The primary interest is understanding and shaping LLM behavior — the model itself more than the scaffolding around it.
+
+Top interests: post-training/alignment methods (RLHF, DPO, and beyond), decoding strategies and tokenization, interpretability (mechanistic interpretability, representation engineering — understanding what models learn and why), synthetic data for training, embeddings, information retrieval/search, low-latency LLM generation (radical 100-1000x speedups like speculative decoding or new architectures, NOT incremental training or optimizer improvements), program search/synthesis, code generation, evaluation/verification (novel evaluation METHODS — not new benchmarks unless paradigm-shifting).
+
+Secondary interests: agents and tool use (prefer work on the model's capabilities over agent scaffolding/orchestration), new modes of human-AI collaboration and UX for scientific computing, AI's impact on and role in society.
+
+NOT interested in: image/video diffusion models (text diffusion is fine), training optimizer tweaks (Adam variants, learning rate schedules, gradient flow improvements), incremental model architecture changes (yet another attention variant), standard benchmark improvements without new ideas, new benchmarks/datasets that just test existing capabilities on a new domain, non-technical evaluation or survey papers, differential privacy, pure fairness/ethics frameworks without technical novelty, agent scaffolding papers that don't involve novel model behavior.`
+
+export interface InterestVersionSummary {
+  id: string
+  version: number
+  content: string
+  createdAt: string
+}
+
+export interface InterestProfileView {
+  id: string
+  name: string
+  active: boolean
+  current: InterestVersionSummary
+  versions: InterestVersionSummary[]   // newest first, including current
+}
+
+// What the filter reads: the text and the version it came from
+export interface ActiveInterests {
+  versionId: string
+  profileName: string
+  version: number
+  content: string
+}
+
+const toSummary = (v: InterestProfileVersion): InterestVersionSummary => ({
+  id: v.id,
+  version: v.version,
+  content: v.content,
+  createdAt: v.createdAt.toISOString(),
+})
+
+export function toInterestProfileView(row: InterestProfile & { versions: InterestProfileVersion[] }): InterestProfileView {
+  const versions = [...row.versions].sort((a, b) => b.version - a.version).map(toSummary)
+  return { id: row.id, name: row.name, active: row.active, current: versions[0], versions }
+}
+
+// The active profile's latest version. With no profile saved, the default is stored as
+// "Default" v1 so every judgment can point at a stored version.
+export async function getActiveInterests(): Promise<ActiveInterests> {
+  let profile = await db.interestProfile.findFirst({
+    where: { active: true },
+    include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+  })
+  if (!profile) {
+    profile = await db.interestProfile.upsert({
+      where: { name: 'Default' },
+      update: { active: true },
+      create: { name: 'Default', active: true, versions: { create: { version: 1, content: DEFAULT_INTERESTS } } },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    })
+  }
+  const latest = profile.versions[0]
+  return { versionId: latest.id, profileName: profile.name, version: latest.version, content: latest.content }
+}
+
+// Store `content` as the profile's next version, unless it matches the latest one
+export async function saveInterestVersion(profileId: string, content: string): Promise<InterestProfileVersion> {
+  const latest = await db.interestProfileVersion.findFirst({
+    where: { profileId },
+    orderBy: { version: 'desc' },
+  })
+  if (latest && latest.content === content) return latest
+  return db.interestProfileVersion.create({
+    data: { profileId, version: (latest?.version ?? 0) + 1, content },
+  })
+}
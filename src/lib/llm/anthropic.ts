@@ -0,0 +1,53 @@
+import type { LLMProvider } from '@/lib/llm/types'
+
+const API_URL = 'https://api.anthropic.com/v1/messages'
+const API_VERSION = '2023-06-01'
+const MAX_TOKENS = 4096
+
+// Anthropic's Messages API, called directly. Structured output is a forced call to a
+// tool whose input schema is the requested schema; the tool input is the JSON reply.
+export function createAnthropicProvider(options: { apiKey?: string }): LLMProvider {
+  return {
+    name: 'anthropic',
+
+    async complete({ model, messages, json }) {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+      const response = await fetch(API_URL, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': options.apiKey || '',
+          'anthropic-version': API_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: MAX_TOKENS,
+          ...(system && { system }),
+          messages: messages.filter(m => m.role !== 'system').map(m => ({ role: m.role, content: m.content })),
+          ...(json && {
+            tools: [{ name: json.name, description: 'Record the response.', input_schema: json.schema }],
+            tool_choice: { type: 'tool', name: json.name },
+          }),
+        }),
+      })
+      if (!response.ok) {
+        // Status and headers go along, as on OpenAI SDK errors, so retries can honor rate limits
+        const error = new Error(`Anthropic API error ${response.status}: ${await response.text()}`)
+        throw Object.assign(error, { status: response.status, headers: response.headers })
+      }
+
+      const data = await response.json()
+      const blocks: any[] = data.content || []
+      const toolUse = blocks.find(b => b.type === 'tool_use')
+      return {
+        text: json
+          ? (toolUse ? JSON.stringify(toolUse.input) : '')
+          : blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+        usage: data.usage && {
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,66 @@
+import { createAnthropicProvider } from '@/lib/llm/anthropic'
+import { mockProvider } from '@/lib/llm/mock'
+import { createOpenAICompatibleProvider, createOpenAIProvider } from '@/lib/llm/openai'
+import { getLLMConfig, usingMockLLM, type LLMConfig } from '@/lib/llm/settings'
+import type { JsonFormat, LLMMessage, LLMProvider, LLMResponse, LLMTask } from '@/lib/llm/types'
+import { recordCall } from '@/lib/llm/usage'
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY })
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY })
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({ baseURL: config.baseURL!, apiKey: process.env.LLM_API_KEY })
+  }
+}
+
+// Where a call comes from and what it's about
+export interface CallContext {
+  route?: string        // the API route, for the usage ledger; defaults to "ingestion"
+  paperIds?: string[]   // the papers the prompt is about; only the mock provider reads them
+  model?: string        // instead of the task's configured model, to compare models in evaluations
+}
+
+// Run `messages` through the configured provider with the model chosen for `task`, and
+// log the call to the usage ledger. LLM_PROVIDER=mock overrides the saved settings (see mock.ts).
+export async function complete(
+  task: LLMTask,
+  messages: LLMMessage[],
+  json?: JsonFormat,
+  { route = 'ingestion', paperIds, model: override }: CallContext = {},
+): Promise<LLMResponse> {
+  let provider: LLMProvider = mockProvider
+  let model = 'mock'
+  if (!usingMockLLM()) {
+    const config = await getLLMConfig()
+    provider = createProvider(config)
+    model = override || config.models[task]
+  }
+
+  const started = Date.now()
+  try {
+    const response = await provider.complete({ task, model, messages, json, paperIds })
+    await recordCall({ route, task, provider: provider.name, model, usage: response.usage, latencyMs: Date.now() - started })
+    return response
+  } catch (error) {
+    await recordCall({ route, task, provider: provider.name, model, latencyMs: Date.now() - started, error: (error as Error).message })
+    throw error
+  }
+}
+
+// Like complete, but parses the JSON reply. Throws if the reply is empty or not JSON.
+export async function completeJson<T = any>(
+  task: LLMTask,
+  messages: LLMMessage[],
+  json: JsonFormat,
+  context?: CallContext,
+): Promise<T> {
+  const { text } = await complete(task, messages, json, context)
+  if (!text) throw new Error('Empty response')
+  // Some local models wrap JSON in a code fence despite the schema
+  return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''))
+}
+
+export type { JsonFormat, LLMMessage, LLMTask } from '@/lib/llm/types'
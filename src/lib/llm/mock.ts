@@ -0,0 +1,166 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { LLMProvider, LLMRequest } from '@/lib/llm/types'
+
+// LLM_PROVIDER=mock answers every call from fixture files instead of a model, so the app
+// can be developed and demoed offline. Each paper's fixture is `<paper id>.json` in
+// LLM_FIXTURES_DIR (default fixtures/llm), with ':' and '/' in the ID replaced by '_'
+// (arxiv:2401.12345 → arxiv_2401.12345.json). A fixture holds responses keyed by the
+// JSON format name, or by task for plain-text replies:
+//
+//   {
+//     "paper_filter": { "score": 90, "interest": "...", "tag": "...", "rationale": "..." },  // or false: never selected
+//     "paper_extraction": { "tag": "...", "question": "...", "thesis": "...", "method": "..." },
+//     "guess_feedback": { "thesis_feedback": "...", "method_feedback": "...", "overall": "...", "followup": "..." },
+//     "chat": "..."
+//   }
+//
+// default.json is consulted for anything a paper's fixture lacks and for calls about no
+// paper (report, tune). What neither covers is generated from the schema, seeded by the
+// paper ID, so the same paper always gets the same answer. Replies are checked against
+// the requested schema, so a bad fixture fails loudly.
+
+type Fixture = Record<string, unknown>
+
+const fixturesDir = () => process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm')
+const fileFor = (key: string) => `${key.replace(/[:/]/g, '_')}.json`
+
+async function readFixture(key: string): Promise<Fixture> {
+  try {
+    return JSON.parse(await readFile(path.join(fixturesDir(), fileFor(key)), 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw new Error(`Unreadable LLM fixture ${fileFor(key)}: ${(error as Error).message}`)
+  }
+}
+
+// The response stored for `name`, from the paper's fixture or else default.json
+async function lookup(paperId: string | undefined, name: string): Promise<unknown> {
+  const own = paperId ? await readFixture(paperId) : {}
+  if (name in own) return own[name]
+  const fallback = await readFixture('default')
+  return fallback[name]
+}
+
+// FNV-1a, as in the stub embedding provider
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// A value satisfying `schema` (the strict subset the app uses), varied by `seed`
+function fromSchema(schema: any, seed: string, name = 'value'): unknown {
+  if (schema.enum) return schema.enum[hash(`${seed}:${name}`) % schema.enum.length]
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries<any>(schema.properties || {})
+        .map(([key, property]) => [key, fromSchema(property, seed, key)]))
+    case 'array':
+      return []
+    case 'integer':
+    case 'number':
+      return hash(`${seed}:${name}`) % 101
+    case 'boolean':
+      return hash(`${seed}:${name}`) % 2 === 0
+    default:
+      return `Mock ${name.replace(/_/g, ' ')} for ${seed}.`
+  }
+}
+
+// Returns where `value` breaks `schema`, or null if it conforms
+function schemaError(value: any, schema: any, at = 'response'): string | null {
+  if (schema.enum && !schema.enum.includes(value)) return `${at} is not one of ${schema.enum.join(', ')}`
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${at} is not an object`
+      const properties = schema.properties || {}
+      for (const key of schema.required || []) {
+        if (!(key in value)) return `${at}.${key} is missing`
+      }
+      for (const [key, child] of Object.entries(value)) {
+        if (!(key in properties)) {
+          if (schema.additionalProperties === false) return `${at}.${key} is not allowed`
+          continue
+        }
+        const error = schemaError(child, properties[key], `${at}.${key}`)
+        if (error) return error
+      }
+      return null
+    }
+    case 'array':
+      if (!Array.isArray(value)) return `${at} is not an array`
+      for (const [i, item] of value.entries()) {
+        const error = schema.items && schemaError(item, schema.items, `${at}[${i}]`)
+        if (error) return error
+      }
+      return null
+    case 'integer':
+      return Number.isInteger(value) ? null : `${at} is not an integer`
+    case 'number':
+      return typeof value === 'number' ? null : `${at} is not a number`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${at} is not a boolean`
+    case 'string':
+      return typeof value === 'string' ? null : `${at} is not a string`
+    default:
+      return null
+  }
+}
+
+// Every listed paper not marked false, scored by its fixture or its ID; the filter keeps the top ones
+async function mockFilter(paperIds: string[], itemSchema: any) {
+  const selections: Record<string, unknown>[] = []
+  for (const [index, id] of paperIds.entries()) {
+    const stored = await lookup(id, 'paper_filter')
+    if (stored === false) continue
+    const generated = fromSchema(itemSchema, id) as Record<string, unknown>
+    selections.push({ ...generated, ...(stored as object | undefined), index })
+  }
+  return { selections }
+}
+
+async function mockJson({ json, paperIds = [] }: LLMRequest): Promise<unknown> {
+  const { name, schema } = json!
+  if (name === 'paper_filter') {
+    return mockFilter(paperIds, (schema as any).properties.selections.items)
+  }
+  const paperId = paperIds[0]
+  return await lookup(paperId, name) ?? fromSchema(schema, paperId ?? name)
+}
+
+async function mockText({ task, messages, paperIds = [] }: LLMRequest): Promise<string> {
+  const stored = await lookup(paperIds[0], task)
+  if (typeof stored === 'string') return stored
+  const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content ?? ''
+  return `Mock ${task} reply to: ${lastUser.slice(0, 80).trim()}${lastUser.length > 80 ? '…' : ''}`
+}
+
+// Rough token counts (about four characters each), so replies report usage like real providers
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+
+  async complete(request) {
+    let text: string
+    if (request.json) {
+      const value = await mockJson(request)
+      const error = schemaError(value, request.json.schema)
+      if (error) throw new Error(`Mock ${request.json.name} ${error} (check ${fixturesDir()})`)
+      text = JSON.stringify(value)
+    } else {
+      text = await mockText(request)
+    }
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+        outputTokens: estimateTokens(text),
+      },
+    }
+  },
+}
@@ -0,0 +1,57 @@
+import OpenAI from 'openai'
+import type { LLMProvider } from '@/lib/llm/types'
+
+// OpenAI's Responses API
+export function createOpenAIProvider(options: { apiKey?: string }): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey })
+
+  return {
+    name: 'openai',
+
+    async complete({ model, messages, json }) {
+      const response = await client.responses.create({
+        model,
+        input: messages,
+        text: {
+          verbosity: 'low',
+          ...(json && { format: { type: 'json_schema', name: json.name, strict: true, schema: json.schema } }),
+        },
+      })
+      return {
+        text: response.output_text,
+        usage: response.usage && {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+      }
+    },
+  }
+}
+
+// Any server with an OpenAI-style Chat Completions endpoint (llama.cpp, Ollama, vLLM,
+// LM Studio). Structured output goes through `response_format`, which these servers
+// turn into a grammar.
+export function createOpenAICompatibleProvider(options: { baseURL: string; apiKey?: string }): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey || 'unused', baseURL: options.baseURL })
+
+  return {
+    name: 'openai-compatible',
+
+    async complete({ model, messages, json }) {
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        ...(json && {
+          response_format: { type: 'json_schema', json_schema: { name: json.name, strict: true, schema: json.schema } },
+        }),
+      })
+      return {
+        text: response.choices[0]?.message?.content ?? '',
+        usage: response.usage && {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import { db } from '@/lib/db'
+import { LLM_TASKS, type LLMTask } from '@/lib/llm/types'
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible'] as const
+export type LLMProviderName = typeof LLM_PROVIDERS[number]
+
+// Which provider the app talks to and which model each task uses. API keys stay in the
+// environment: OPENAI_API_KEY, ANTHROPIC_API_KEY, or LLM_API_KEY for OpenAI-compatible servers.
+export interface LLMConfig {
+  provider: LLMProviderName
+  baseURL?: string                     // OpenAI-compatible servers only
+  models: Record<LLMTask, string>
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openai': 'gpt-5.2',
+  'anthropic': 'claude-sonnet-4-5',
+  'openai-compatible': 'llama3.1',
+}
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1'
+
+const allTasks = (model: string) =>
+  Object.fromEntries(LLM_TASKS.map(task => [task, model])) as Record<LLMTask, string>
+
+// LLM_PROVIDER=mock answers from fixtures whatever the saved settings say (see mock.ts)
+export const usingMockLLM = () => process.env.LLM_PROVIDER === 'mock'
+
+// Until settings are saved: LLM_PROVIDER (default openai), LLM_BASE_URL, and LLM_MODEL
+// for every task
+export function defaultLLMConfig(): LLMConfig {
+  const provider = (LLM_PROVIDERS as readonly string[]).includes(process.env.LLM_PROVIDER || '')
+    ? process.env.LLM_PROVIDER as LLMProviderName
+    : 'openai'
+  return {
+    provider,
+    baseURL: provider === 'openai-compatible' ? process.env.LLM_BASE_URL || DEFAULT_BASE_URL : undefined,
+    models: allTasks(process.env.LLM_MODEL || DEFAULT_MODELS[provider]),
+  }
+}
+
+export async function getLLMConfig(): Promise<LLMConfig> {
+  const row = await db.llmSettings.findUnique({ where: { id: 'default' } })
+  if (!row) return defaultLLMConfig()
+  const provider = row.provider as LLMProviderName
+  // Tasks added after the settings were saved use the provider's default model
+  return {
+    provider,
+    baseURL: row.baseURL ?? undefined,
+    models: { ...allTasks(DEFAULT_MODELS[provider]), ...JSON.parse(row.models) },
+  }
+}
+
+export async function saveLLMConfig(config: LLMConfig): Promise<LLMConfig> {
+  const data = {
+    provider: config.provider,
+    baseURL: config.provider === 'openai-compatible' ? config.baseURL || DEFAULT_BASE_URL : null,
+    models: JSON.stringify(config.models),
+  }
+  await db.llmSettings.upsert({ where: { id: 'default' }, update: data, create: { id: 'default', ...data } })
+  return getLLMConfig()
+}
+
+// Returns an error message, or null if the config is usable
+export function validateLLMConfig(config: LLMConfig): string | null {
+  if (!LLM_PROVIDERS.includes(config.provider)) return `Unknown provider: ${config.provider}`
+  if (config.provider === 'openai-compatible' && config.baseURL) {
+    try {
+      new URL(config.baseURL)
+    } catch {
+      return `Invalid base URL: ${config.baseURL}`
+    }
+  }
+  const missing = LLM_TASKS.find(task => !config.models[task]?.trim())
+  if (missing) return `A model is required for ${missing}`
+  return null
+}
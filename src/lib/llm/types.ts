@@ -0,0 +1,39 @@
+// What the app asks an LLM to do; each task can use its own model
+export const LLM_TASKS = ['filter', 'extract', 'feedback', 'chat', 'report', 'tune', 'judge'] as const
+export type LLMTask = typeof LLM_TASKS[number]
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Structured output: the reply must be JSON matching `schema` (a strict JSON schema)
+export interface JsonFormat {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export interface LLMRequest {
+  task: LLMTask
+  model: string
+  messages: LLMMessage[]
+  json?: JsonFormat
+  paperIds?: string[]   // the papers the prompt is about, in the order it lists them
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  text: string        // for JSON requests, the JSON document
+  usage?: LLMUsage
+}
+
+// One way of reaching models. Providers turn JsonFormat into whatever their API uses
+// for structured output.
+export interface LLMProvider {
+  name: string
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
@@ -0,0 +1,172 @@
+import { startOfDay, subDays, format } from 'date-fns'
+import { db } from '@/lib/db'
+import type { LLMTask, LLMUsage } from '@/lib/llm/types'
+
+// USD per million tokens. Model names match by longest prefix, so dated snapshots
+// ("claude-sonnet-4-5-20250929") are priced like their alias.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+}
+
+// Local servers and the mock cost nothing; unknown hosted models have no estimate
+export function estimateCost(provider: string, model: string, usage?: LLMUsage): number | null {
+  if (provider === 'openai-compatible' || provider === 'mock') return 0
+  const key = Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  if (!key || !usage) return null
+  const price = MODEL_PRICES[key]
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+export interface CallRecord {
+  route: string
+  task: LLMTask
+  provider: string
+  model: string
+  usage?: LLMUsage
+  latencyMs: number
+  error?: string
+}
+
+// Log a call to the ledger. Never throws: losing a ledger row beats failing the call.
+export async function recordCall(call: CallRecord) {
+  try {
+    await db.llmCall.create({
+      data: {
+        route: call.route,
+        task: call.task,
+        provider: call.provider,
+        model: call.model,
+        inputTokens: call.usage?.inputTokens ?? 0,
+        outputTokens: call.usage?.outputTokens ?? 0,
+        latencyMs: call.latencyMs,
+        status: call.error ? 'error' : 'ok',
+        error: call.error,
+        cost: estimateCost(call.provider, call.model, call.usage),
+      },
+    })
+  } catch (error) {
+    console.error('Error recording LLM call:', error)
+  }
+}
+
+export async function getDailyBudget(): Promise<number | null> {
+  const row = await db.llmBudget.findUnique({ where: { id: 'default' } })
+  return row?.dailyLimit ?? null
+}
+
+export async function saveDailyBudget(dailyLimit: number | null): Promise<number | null> {
+  await db.llmBudget.upsert({ where: { id: 'default' }, update: { dailyLimit }, create: { id: 'default', dailyLimit } })
+  return dailyLimit
+}
+
+// Estimated spend since local midnight
+export async function spentToday(): Promise<number> {
+  const { _sum } = await db.llmCall.aggregate({
+    where: { createdAt: { gte: startOfDay(new Date()) } },
+    _sum: { cost: true },
+  })
+  return _sum.cost ?? 0
+}
+
+export async function overDailyBudget(): Promise<boolean> {
+  const budget = await getDailyBudget()
+  return budget !== null && await spentToday() >= budget
+}
+
+export interface UsageTotals {
+  calls: number
+  errors: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  unpriced: number       // calls with no cost estimate
+  latencyMs: number      // mean
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string           // yyyy-MM-dd, local
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string
+}
+
+export interface UsageSummary {
+  days: DailyUsage[]
+  byTask: UsageBreakdown[]
+  byModel: UsageBreakdown[]
+  byRoute: UsageBreakdown[]
+  recentErrors: { createdAt: Date; route: string; task: string; model: string; error: string | null }[]
+  spentToday: number
+  dailyBudget: number | null
+}
+
+type CallRow = { createdAt: Date; route: string; task: string; model: string; inputTokens: number; outputTokens: number; latencyMs: number; status: string; cost: number | null }
+
+function totals(calls: CallRow[]): UsageTotals {
+  return {
+    calls: calls.length,
+    errors: calls.filter(c => c.status === 'error').length,
+    inputTokens: calls.reduce((sum, c) => sum + c.inputTokens, 0),
+    outputTokens: calls.reduce((sum, c) => sum + c.outputTokens, 0),
+    cost: calls.reduce((sum, c) => sum + (c.cost ?? 0), 0),
+    unpriced: calls.filter(c => c.cost === null && c.status === 'ok').length,
+    latencyMs: calls.length ? Math.round(calls.reduce((sum, c) => sum + c.latencyMs, 0) / calls.length) : 0,
+  }
+}
+
+function breakdown(calls: CallRow[], keyOf: (call: CallRow) => string): UsageBreakdown[] {
+  const groups = new Map<string, CallRow[]>()
+  for (const call of calls) groups.set(keyOf(call), [...groups.get(keyOf(call)) ?? [], call])
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...totals(group) }))
+    .sort((a, b) => b.cost - a.cost || b.calls - a.calls)
+}
+
+// Daily totals for the last `dayCount` days (today included, empty days as zeros) and
+// breakdowns over the whole range
+export async function getUsageSummary(dayCount: number): Promise<UsageSummary> {
+  const since = startOfDay(subDays(new Date(), dayCount - 1))
+  const calls: CallRow[] = await db.llmCall.findMany({
+    where: { createdAt: { gte: since } },
+    select: { createdAt: true, route: true, task: true, model: true, inputTokens: true, outputTokens: true, latencyMs: true, status: true, cost: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const days: DailyUsage[] = []
+  for (let i = 0; i < dayCount; i++) {
+    const date = format(subDays(new Date(), dayCount - 1 - i), 'yyyy-MM-dd')
+    days.push({ date, ...totals(calls.filter(c => format(c.createdAt, 'yyyy-MM-dd') === date)) })
+  }
+
+  const recentErrors = await db.llmCall.findMany({
+    where: { status: 'error' },
+    select: { createdAt: true, route: true, task: true, model: true, error: true },
+    orderBy: { createdAt: 'desc' },
+    take: 10,
+  })
+
+  return {
+    days,
+    byTask: breakdown(calls, c => c.task),
+    byModel: breakdown(calls, c => c.model),
+    byRoute: breakdown(calls, c => c.route),
+    recentErrors,
+    spentToday: days[days.length - 1].cost,
+    dailyBudget: await getDailyBudget(),
+  }
+}
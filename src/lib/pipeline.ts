@@ -0,0 +1,970 @@
+import type { Paper, PaperRevision } from '@prisma/client'
+import { db } from '@/lib/db'
+import { complete, completeJson, type CallContext } from '@/lib/llm'
+import { overDailyBudget } from '@/lib/llm/usage'
+import { getWorkQueue, withRetries } from '@/lib/work-queue'
+import { getActivePrompt, getPromptVersion, renderPrompt, type ActivePrompt } from '@/lib/prompts'
+import { getActiveSourceConfig } from '@/lib/source-profiles'
+import { getActiveInterests } from '@/lib/interest-profiles'
+import { getFilterExamples, type LabeledExample } from '@/lib/filter-examples'
+import { PRERANK_TOP_K, preRankCandidates } from '@/lib/prerank'
+import { clusterSelectedPapers } from '@/lib/clustering'
+import { authorKey, authorKeysField } from '@/lib/authors'
+import { getFeedMix, hasQuotas, QUOTA_OVERSELECT, selectWithinMix } from '@/lib/feed-mix'
+import { applyFilterRules, describeRule, getEnabledFilterRules, recordRuleHits } from '@/lib/filter-rules'
+import { PAPER_SOURCES, canonicalPaperId, getPaperSource, parsePaperReference, type PaperReference } from '@/lib/sources'
+import type { DateRange, SourcePaper } from '@/lib/sources/types'
+
+// What a tracked paper looked like before its latest new version
+export interface RevisionSummary {
+  fromVersion: number
+  toVersion: number
+  previousTitle: string
+  previousAbstract: string
+  previousTag?: string
+  previousQuestion?: string
+  previousThesis?: string
+  previousMethod?: string
+  detectedAt: string
+  reextracting?: boolean   // the fields are still the old version's
+}
+
+// Why the filter selected a paper
+export interface RelevanceExplanation {
+  score?: number
+  interest?: string
+  rationale?: string
+  similarity?: number   // to liked papers, when pre-ranked
+}
+
+export interface ProcessedPaper extends SourcePaper {
+  tag?: string
+  question?: string
+  thesis?: string
+  method?: string
+  revision?: RevisionSummary
+  relevance?: RelevanceExplanation
+  related?: ProcessedPaper[]   // closely related papers stacked under this one
+  explored?: boolean           // picked outside the interest profile (see feed-mix)
+  promptVersionId?: string     // the extraction prompt version that wrote the fields
+}
+
+export const TOPIC_TAGS = [
+  'synthetic data',
+  'post-training/alignment',
+  'information retrieval/search',
+  'embeddings',
+  'interpretability',
+  'program search/synthesis',
+  'low-latency generation',
+  'code generation',
+  'agents/tool use',
+  'evaluation/verification',
+  'human-AI collaboration',
+  'AI in society',
+] as const
+
+
+// A paper the filter selected, with why. Score and reasons are missing when the filter
+// failed and papers were passed through unjudged.
+export interface FilterSelection {
+  paper: SourcePaper
+  score?: number        // 0-100
+  interest?: string     // the interest from the profile it matched
+  tag?: string          // the TOPIC_TAGS entry it falls under, for the feed mix
+  rationale?: string    // one sentence
+}
+
+// Largest pool the filter judges in one prompt; bigger pools are judged in a tournament
+const FILTER_CHUNK_SIZE = parseInt(process.env.FILTER_CHUNK_SIZE || '40')
+// Each tournament round keeps this many times its share of the target, so the final
+// round still has a choice to make
+const ADVANCE_FACTOR = 2
+const FILTER_ATTEMPTS = 2
+
+export interface FilterResult {
+  selections: FilterSelection[]
+  fallbacks: string[]   // rounds whose output was unusable, and what was kept unjudged instead
+}
+
+// One filter prompt: pick `count` of `papers`. Throws when the model's output is unusable.
+async function selectRound(
+  papers: SourcePaper[],
+  count: number,
+  interests: string,
+  examples: LabeledExample[],
+  boosted: Set<string>,
+): Promise<FilterSelection[]> {
+  const paperList = papers.map((p, i) =>
+    `[${i}]${boosted.has(p.id) ? ' (priority)' : ''} "${p.title}"\n    ${p.abstract.slice(0, 400)}`
+  ).join('\n\n')
+  const priorityNote = papers.some(p => boosted.has(p.id))
+    ? ' Papers marked (priority) match topics I\'ve asked to boost: prefer them over otherwise comparable papers.'
+    : ''
+
+  const exampleList = examples.map(e =>
+    `- ${e.relevant ? 'RELEVANT' : 'NOT RELEVANT'}: "${e.title}"\n    ${e.abstract.slice(0, 200)}`
+  ).join('\n')
+  const exampleSection = examples.length > 0
+    ? `\n\nPapers I've judged myself before. Where they disagree with how you'd read my interests, follow my judgment for similar papers:\n\n${exampleList}`
+    : ''
+
+  const prompt = await getActivePrompt('filter')
+  const parsed = await completeJson('filter', renderPrompt(prompt, {
+    interests,
+    examples: exampleSection,
+    paperCount: papers.length,
+    count,
+    priorityNote,
+    papers: paperList,
+  }), {
+    name: 'paper_filter',
+    schema: {
+      type: 'object',
+      properties: {
+        selections: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              score: { type: 'integer' },
+              interest: { type: 'string' },
+              tag: { type: 'string', enum: [...TOPIC_TAGS] },
+              rationale: { type: 'string' }
+            },
+            required: ['index', 'score', 'interest', 'tag', 'rationale'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['selections'],
+      additionalProperties: false
+    }
+  }, { paperIds: papers.map(p => p.id) })
+
+  if (!Array.isArray(parsed.selections)) throw new Error('response has no selections')
+  const selections: { index: number; score: number; interest: string; tag: string; rationale: string }[] = parsed.selections
+
+  const filtered = selections
+    .filter(s => Number.isInteger(s.index) && s.index >= 0 && s.index < papers.length)
+    .filter((s, i, all) => all.findIndex(other => other.index === s.index) === i)
+    .map(s => ({
+      paper: papers[s.index],
+      score: Math.max(0, Math.min(100, Math.round(s.score))),
+      interest: s.interest,
+      tag: (TOPIC_TAGS as readonly string[]).includes(s.tag) ? s.tag : undefined,
+      rationale: s.rationale,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+  if (filtered.length === 0) throw new Error('no valid selections')
+  return filtered
+}
+
+// Filter papers for relevance against an interest profile (markdown) using LLM batch evaluation.
+// Papers the user rescued or confirmed rejected earlier are shown as labeled examples, and
+// papers in `boosted` (see filter-rules) are flagged as priorities.
+//
+// Pools larger than FILTER_CHUNK_SIZE are split into interleaved chunks (so pre-ranked
+// papers spread evenly), each chunk advances its share of the target, and rounds repeat
+// until the survivors fit in one final prompt. A round whose output is unusable after a
+// retry keeps the first papers of its pool unjudged, and says so in `fallbacks`.
+export async function filterRelevantPapers(
+  papers: SourcePaper[],
+  targetCount: number,
+  interests: string,
+  examples: LabeledExample[] = [],
+  boosted: Set<string> = new Set(),
+): Promise<FilterResult> {
+  const fallbacks: string[] = []
+
+  const judge = async (pool: SourcePaper[], count: number, label: string): Promise<FilterSelection[]> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await selectRound(pool, count, interests, examples, boosted)
+      } catch (error) {
+        console.error(`Error filtering papers (${label}, attempt ${attempt}):`, error)
+        if (attempt < FILTER_ATTEMPTS) continue
+        const kept = Math.min(count, pool.length)
+        fallbacks.push(`${label}: ${(error as Error).message}; kept the first ${kept} of ${pool.length} papers unjudged`)
+        return pool.slice(0, kept).map(paper => ({ paper }))
+      }
+    }
+  }
+
+  console.log(`Filtering ${papers.length} papers down to ~${targetCount}...`)
+  let pool = papers
+  for (let round = 1; ; round++) {
+    if (pool.length <= FILTER_CHUNK_SIZE) {
+      const selections = await judge(pool, targetCount, round === 1 ? 'filter' : `final round (${round})`)
+      console.log(`Filtered ${papers.length} papers down to ${selections.length}`)
+      return { selections, fallbacks }
+    }
+
+    // When advancing twice the target wouldn't narrow the pool, the chunks' picks are the result
+    const last = targetCount * ADVANCE_FACTOR >= pool.length
+    const rate = (last ? targetCount : targetCount * ADVANCE_FACTOR) / pool.length
+    const chunkCount = Math.ceil(pool.length / FILTER_CHUNK_SIZE)
+    const chunks = Array.from({ length: chunkCount }, (_, c) => pool.filter((_, i) => i % chunkCount === c))
+    const winners = (await Promise.all(chunks.map((chunk, c) =>
+      judge(chunk, Math.max(1, Math.ceil(chunk.length * rate)), `round ${round}, chunk ${c + 1} of ${chunkCount}`)
+    ))).flat()
+    console.log(`Round ${round}: ${pool.length} papers in ${chunkCount} chunks, ${winners.length} advance`)
+
+    if (last || winners.length >= pool.length) {
+      const selections = winners.sort((a, b) => (b.score ?? -1) - (a.score ?? -1)).slice(0, targetCount)
+      console.log(`Filtered ${papers.length} papers down to ${selections.length}`)
+      return { selections, fallbacks }
+    }
+    pool = winners.map(w => w.paper)
+  }
+}
+
+
+export interface ExtractedFields {
+  tag: string
+  question: string
+  thesis: string
+  method: string
+}
+
+// Run one version of the extraction prompt on a paper, given excerpts of its full text.
+// Throws when the reply is empty, unparseable, or has no question, so a failed extraction
+// is never stored as a blank card.
+export async function extractFields(
+  paper: SourcePaper,
+  excerpt: string,
+  prompt: ActivePrompt,
+  { route = 'ingestion', model }: Omit<CallContext, 'paperIds'> = {},
+): Promise<ExtractedFields> {
+  const content = excerpt ? `\n\nPaper Content (excerpts):\n${excerpt}` : ''
+
+  console.log('Making LLM call for paper:', paper.title)
+
+  const response = await complete('extract', renderPrompt(prompt, {
+    title: paper.title,
+    abstract: paper.abstract,
+    content,
+  }), {
+    name: 'paper_extraction',
+    schema: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', enum: [...TOPIC_TAGS] },
+        question: { type: 'string' },
+        thesis: { type: 'string' },
+        method: { type: 'string' }
+      },
+      required: ['tag', 'question', 'thesis', 'method'],
+      additionalProperties: false
+    }
+  }, { route, model, paperIds: [paper.id] })
+
+  const responseContent = response.text
+  console.log('LLM Response for paper:', paper.title, '->', responseContent)
+
+  if (!responseContent) throw new Error('Extraction returned an empty response')
+  let extracted: Partial<ExtractedFields>
+  try {
+    extracted = JSON.parse(responseContent.replace(/```json\n?|\n?```/g, '').trim())
+  } catch {
+    throw new Error(`Extraction returned unparseable JSON: ${responseContent.slice(0, 200)}`)
+  }
+  if (!extracted.question) throw new Error('Extraction returned empty fields')
+  return {
+    tag: extracted.tag || 'ML research',
+    question: extracted.question,
+    thesis: extracted.thesis || '',
+    method: extracted.method || '',
+  }
+}
+
+
+// Evaluations run extraction with a prompt version or model other than the active ones
+export interface ExtractionOverrides {
+  prompt?: ActivePrompt
+  model?: string
+}
+
+// Process paper with LLM to extract tag, question, and core idea, using the active extraction
+// prompt. Throws when extraction fails; callers retry rather than store blank fields.
+export async function processPaperWithLLM(
+  paper: SourcePaper,
+  route = 'ingestion',
+  overrides: ExtractionOverrides = {},
+): Promise<ProcessedPaper> {
+  // Fetch full content for richer analysis
+  const excerpt = await getPaperSource(paper.source).fetchExcerpt(paper.externalId)
+  const prompt = overrides.prompt ?? await getActivePrompt('extraction')
+  const fields = await extractFields(paper, excerpt, prompt, { route, model: overrides.model })
+
+  return {
+    ...paper,
+    ...fields,
+    promptVersionId: prompt.versionId,
+    content: ''
+  }
+}
+
+
+// Convert a stored Paper row (optionally with its latest revision) back into the shape the client expects
+export function toProcessedPaper(row: Paper & { revisions?: PaperRevision[] }): ProcessedPaper {
+  const revision = row.revisedAt ? row.revisions?.[0] : undefined
+  return {
+    id: row.id,
+    source: row.source,
+    externalId: row.externalId,
+    version: row.version,
+    title: row.title,
+    authors: JSON.parse(row.authors),
+    authorAffiliations: JSON.parse(row.authorAffiliations),
+    abstract: row.abstract,
+    url: row.url,
+    pdfUrl: row.pdfUrl ?? undefined,
+    publishedAt: row.publishedAt.toISOString(),
+    updatedAt: row.sourceUpdatedAt.toISOString(),
+    primaryCategory: row.primaryCategory ?? undefined,
+    categories: JSON.parse(row.categories),
+    comment: row.comment ?? undefined,
+    journalRef: row.journalRef ?? undefined,
+    doi: row.doi ?? undefined,
+    tag: row.tag ?? undefined,
+    question: row.question ?? undefined,
+    thesis: row.thesis ?? undefined,
+    method: row.method ?? undefined,
+    explored: row.explored || undefined,
+    relevance: row.relevanceScore !== null || row.similarity !== null ? {
+      score: row.relevanceScore ?? undefined,
+      interest: row.matchedInterest ?? undefined,
+      rationale: row.relevanceRationale ?? undefined,
+      similarity: row.similarity ?? undefined,
+    } : undefined,
+    revision: revision && {
+      fromVersion: revision.fromVersion,
+      toVersion: revision.toVersion,
+      previousTitle: revision.previousTitle,
+      previousAbstract: revision.previousAbstract,
+      previousTag: revision.previousTag ?? undefined,
+      previousQuestion: revision.previousQuestion ?? undefined,
+      previousThesis: revision.previousThesis ?? undefined,
+      previousMethod: revision.previousMethod ?? undefined,
+      detectedAt: revision.detectedAt.toISOString(),
+      reextracting: row.reextractPending || undefined,
+    },
+    content: '',
+  }
+}
+
+
+// Paper columns that come straight from a source listing
+function listingFields(paper: SourcePaper) {
+  return {
+    source: paper.source,
+    externalId: paper.externalId,
+    version: paper.version,
+    title: paper.title,
+    authors: JSON.stringify(paper.authors),
+    authorKeys: authorKeysField(paper.authors),
+    authorAffiliations: JSON.stringify(paper.authorAffiliations),
+    abstract: paper.abstract,
+    url: paper.url,
+    pdfUrl: paper.pdfUrl,
+    publishedAt: new Date(paper.publishedAt),
+    sourceUpdatedAt: new Date(paper.updatedAt),
+    primaryCategory: paper.primaryCategory,
+    categories: JSON.stringify(paper.categories),
+    comment: paper.comment,
+    journalRef: paper.journalRef,
+    doi: paper.doi,
+  }
+}
+
+
+// IDs of papers the user has engaged with: graded, bookmarked, practiced on, or put in a deck
+async function getTrackedPaperIds(): Promise<Set<string>> {
+  const [grades, bookmarks, interactions, deckPapers] = await Promise.all([
+    db.paperGrade.findMany({ select: { paperId: true } }),
+    db.bookmark.findMany({ select: { paperId: true } }),
+    db.interaction.findMany({ select: { paperId: true }, distinct: ['paperId'] }),
+    db.deckPaper.findMany({ select: { paperId: true }, distinct: ['paperId'] }),
+  ])
+  // Rows saved before IDs were source-qualified hold bare arXiv IDs
+  return new Set([...grades, ...bookmarks, ...interactions, ...deckPapers].map(r => canonicalPaperId(r.paperId)))
+}
+
+
+// Replace a stored paper's metadata with a newer version. Tracked papers also get a
+// snapshot of the old version, are queued for re-extraction, and resurface in the feed.
+// They keep their old fields, and stay in the feed, until re-extraction succeeds.
+async function applyNewVersion(row: Paper, paper: SourcePaper, tracked: boolean) {
+  if (!tracked) {
+    await db.paper.update({ where: { id: row.id }, data: listingFields(paper) })
+    return
+  }
+
+  console.log(`Paper ${row.id} revised: v${row.version} -> v${paper.version}`)
+  await db.$transaction([
+    db.paperRevision.create({
+      data: {
+        paperId: row.id,
+        fromVersion: row.version,
+        toVersion: paper.version,
+        previousTitle: row.title,
+        previousAbstract: row.abstract,
+        previousTag: row.tag,
+        previousQuestion: row.question,
+        previousThesis: row.thesis,
+        previousMethod: row.method,
+      },
+    }),
+    db.paper.update({
+      where: { id: row.id },
+      data: { ...listingFields(paper), relevant: true, reextractPending: true, revisedAt: new Date() },
+    }),
+  ])
+}
+
+
+// Store listings: insert unseen papers and apply newer versions of known ones.
+// Returns the papers the filter hasn't judged yet and how many tracked papers were revised.
+export async function storeNewListings(
+  papers: SourcePaper[],
+  tracked: Set<string>,
+): Promise<{ unjudged: SourcePaper[]; revised: number }> {
+  const known = await db.paper.findMany({
+    where: { id: { in: papers.map(p => p.id) } },
+  })
+  const knownById = new Map<string, Paper>(known.map(p => [p.id, p]))
+  const judgedIds = new Set(known.filter(p => p.relevant !== null).map(p => p.id))
+
+  let revised = 0
+  for (const paper of papers) {
+    const row = knownById.get(paper.id)
+    if (!row) {
+      await db.paper.create({ data: { id: paper.id, ...listingFields(paper) } })
+    } else if (paper.version > row.version) {
+      await applyNewVersion(row, paper, tracked.has(paper.id))
+      if (tracked.has(paper.id)) revised++
+    }
+  }
+
+  return { unjudged: papers.filter(p => !judgedIds.has(p.id)), revised }
+}
+
+
+// New versions of older papers don't show up in recent listings, so look up
+// every tracked paper directly (grouped by source) and apply any version we haven't stored yet
+async function checkTrackedRevisions(tracked: Set<string>): Promise<number> {
+  const rows = await db.paper.findMany({ where: { id: { in: [...tracked] } } })
+  if (rows.length === 0) return 0
+
+  const rowsById = new Map<string, Paper>(rows.map(r => [r.id, r]))
+  let revised = 0
+  for (const source of PAPER_SOURCES) {
+    const externalIds = rows.filter(r => r.source === source.name).map(r => r.externalId)
+    if (externalIds.length === 0) continue
+    for (const paper of await source.fetchByIds(externalIds)) {
+      const row = rowsById.get(paper.id)
+      if (row && paper.version > row.version) {
+        await applyNewVersion(row, paper, true)
+        revised++
+      }
+    }
+  }
+  return revised
+}
+
+
+// Every extraction (ingestion, imports, rescues) shares one queue, so a big batch can't fire
+// dozens of arXiv fetches and LLM calls at once
+export const EXTRACTION_CONCURRENCY = Number(process.env.EXTRACTION_CONCURRENCY) || 4
+const extractionQueue = () => getWorkQueue('extraction', EXTRACTION_CONCURRENCY)
+
+// Extractions queued or running in this process, by paper; a second request for a paper
+// waits for the one already under way
+const globalForExtraction = globalThis as unknown as {
+  extractingPapers: Map<string, Promise<ExtractionOutcome>> | undefined
+}
+const extracting = globalForExtraction.extractingPapers ??= new Map()
+
+// After a paper's extraction fails, ingestion leaves it alone for this long, doubling with
+// each failure in a row
+const RETRY_BACKOFF_MS = 15 * 60 * 1000
+const MAX_RETRY_BACKOFF_MS = 24 * 60 * 60 * 1000
+
+export interface ExtractionOutcome {
+  paperId: string
+  processed?: ProcessedPaper
+  error?: string
+  deferred?: boolean   // left pending because the daily LLM budget was spent
+}
+
+// Extract one stored paper once a queue slot frees up, saving its fields, or the error and a
+// time to retry. Rate limits and transient errors are retried before it counts as failed.
+// With `budget`, it checks the daily LLM budget when its turn comes and stays pending once
+// it's spent.
+async function extractQueued(row: Paper, route: string, budget: boolean): Promise<ExtractionOutcome> {
+  await db.paper.update({ where: { id: row.id }, data: { extractionStatus: 'pending' } })
+  return extractionQueue().run(async () => {
+    if (budget && await overDailyBudget()) return { paperId: row.id, deferred: true }
+    await db.paper.update({ where: { id: row.id }, data: { extractionStatus: 'processing' } })
+    try {
+      const processed = await withRetries(() => processPaperWithLLM(toProcessedPaper(row), route), `Extraction for ${row.id}`)
+      await db.paper.update({
+        where: { id: row.id },
+        data: {
+          tag: processed.tag,
+          question: processed.question,
+          thesis: processed.thesis,
+          method: processed.method,
+          promptVersionId: processed.promptVersionId,
+          processedAt: new Date(),
+          reextractPending: false,
+          extractionStatus: 'done',
+          extractionError: null,
+          extractionAttempts: 0,
+          retryExtractionAt: null,
+        },
+      })
+      return { paperId: row.id, processed }
+    } catch (error) {
+      const message = (error as Error).message
+      console.error('Error processing paper with LLM:', row.title, error)
+      const attempts = row.extractionAttempts + 1
+      const backoff = Math.min(RETRY_BACKOFF_MS * 2 ** (attempts - 1), MAX_RETRY_BACKOFF_MS)
+      await db.paper.update({
+        where: { id: row.id },
+        data: {
+          // A revised paper keeps showing its old fields; anything else is unextracted
+          ...(!row.reextractPending && { processedAt: null }),
+          extractionStatus: 'failed',
+          extractionError: message,
+          extractionAttempts: attempts,
+          retryExtractionAt: new Date(Date.now() + backoff),
+        },
+      })
+      return { paperId: row.id, error: message }
+    }
+  })
+}
+
+// Queue stored papers for extraction (see extractQueued) and wait for them. A paper already
+// being extracted isn't queued twice: its caller gets the outcome of the extraction under
+// way, unless that one was deferred for the budget and this call isn't budgeted.
+async function extractPapers(
+  rows: Paper[],
+  route = 'ingestion',
+  { budget = false }: { budget?: boolean } = {},
+): Promise<ExtractionOutcome[]> {
+  return Promise.all(rows.map(row => {
+    const running = extracting.get(row.id)
+    if (running) {
+      return running.then(async outcome =>
+        outcome.deferred && !budget ? (await extractPapers([row], route))[0] : outcome
+      )
+    }
+    const outcome = extractQueued(row, route, budget).finally(() => extracting.delete(row.id))
+    extracting.set(row.id, outcome)
+    return outcome
+  }))
+}
+
+
+export interface ExtractionQueueStatus {
+  processing: number
+  pending: number
+  failed: { id: string; title: string; error?: string; attempts: number; retryAt?: string }[]
+  failedCount: number
+}
+
+const FAILED_SHOWN = 10
+
+// What the extraction queue is doing now, and the relevant papers whose extraction failed,
+// soonest retry first
+export async function getExtractionQueueStatus(): Promise<ExtractionQueueStatus> {
+  const where = { relevant: true, OR: [{ processedAt: null }, { reextractPending: true }], extractionStatus: 'failed' }
+  const [failed, failedCount] = await Promise.all([
+    db.paper.findMany({ where, orderBy: { retryExtractionAt: 'asc' }, take: FAILED_SHOWN }),
+    db.paper.count({ where }),
+  ])
+  return {
+    processing: extractionQueue().active(),
+    pending: extractionQueue().waiting(),
+    failed: failed.map(row => ({
+      id: row.id,
+      title: row.title,
+      error: row.extractionError ?? undefined,
+      attempts: row.extractionAttempts,
+      retryAt: row.retryExtractionAt?.toISOString(),
+    })),
+    failedCount,
+  }
+}
+
+
+// Extract fields for rows through the queue, counting successes and recording failures on
+// `result`. Rows that reach the queue after the day's LLM budget is spent are left
+// unextracted for a later run. The run's last call covers every relevant unextracted paper,
+// so its deferred count replaces earlier ones.
+async function extractRows(rows: Paper[], result: IngestionResult) {
+  if (rows.length === 0) return
+  let deferred = 0
+  for (const outcome of await extractPapers(rows, 'ingestion', { budget: true })) {
+    if (outcome.processed) result.extracted++
+    else if (outcome.deferred) deferred++
+    else result.errors.push(`Extraction failed for ${outcome.paperId}: ${outcome.error}`)
+  }
+  result.deferred = deferred
+}
+
+
+// Fisher-Yates, on a copy
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[copy[i], copy[j]] = [copy[j], copy[i]]
+  }
+  return copy
+}
+
+
+// Roughly how many candidates to pull from each source per run (more when backfilling a past range,
+// which may not have been seen at all), and what share of new ones the filter keeps
+const HARVEST_SIZE = 100
+const BACKFILL_HARVEST_SIZE = 200
+const SELECTION_RATE = 0.2
+// The most of its shortlist the filter is asked to keep, so it always has a choice to make
+// even when the target is as large as the shortlist
+const MAX_FILTER_SHARE = 0.5
+
+export interface IngestionResult {
+  fetched: number
+  newPapers: number
+  judged: number
+  shortlisted: number
+  selected: number
+  extracted: number
+  deferred: number   // left unextracted because the daily LLM budget was spent
+  revised: number
+  errors: string[]
+  interestVersionId?: string  // set once the filter has run
+}
+
+// Harvest new listings (recent ones, or those submitted within `range`), pick up new
+// versions of tracked papers, filter the unjudged ones, and extract fields for newly
+// relevant (or revised) papers
+export async function runIngestion(range?: DateRange): Promise<IngestionResult> {
+  const result: IngestionResult = { fetched: 0, newPapers: 0, judged: 0, shortlisted: 0, selected: 0, extracted: 0, deferred: 0, revised: 0, errors: [] }
+
+  const config = await getActiveSourceConfig()
+  const listings: SourcePaper[] = []
+  for (const source of PAPER_SOURCES) {
+    try {
+      listings.push(...await source.search(config, range ? BACKFILL_HARVEST_SIZE : HARVEST_SIZE, range))
+    } catch (error) {
+      result.errors.push(`${source.label} search failed: ${(error as Error).message}`)
+    }
+  }
+  result.fetched = listings.length
+  if (listings.length === 0) result.errors.push('No source returned any listings')
+
+  const knownCount = await db.paper.count({ where: { id: { in: listings.map(p => p.id) } } })
+  result.newPapers = listings.length - knownCount
+
+  const tracked = await getTrackedPaperIds()
+  const { unjudged, revised } = await storeNewListings(listings, tracked)
+  result.revised = revised
+  if (!range) {
+    try {
+      result.revised += await checkTrackedRevisions(tracked)
+    } catch (error) {
+      result.errors.push(`Revision check failed: ${(error as Error).message}`)
+    }
+  }
+
+  // Papers by followed authors skip the filter
+  const followed = new Set((await db.followedAuthor.findMany()).map(a => a.key))
+  const byFollowed = unjudged.filter(p => p.authors.some(author => followed.has(authorKey(author))))
+  if (byFollowed.length > 0) {
+    await db.paper.updateMany({
+      where: { id: { in: byFollowed.map(p => p.id) } },
+      data: { relevant: true, judgedAt: new Date() },
+    })
+    result.judged += byFollowed.length
+    result.selected += byFollowed.length
+    console.log(`${byFollowed.length} new papers by followed authors bypass the filter`)
+  }
+  const unfollowed = unjudged.filter(p => !byFollowed.includes(p))
+
+  // Mute and always-include rules decide some papers outright; boosted ones are sure to
+  // reach the filter
+  const rules = applyFilterRules(unfollowed, await getEnabledFilterRules())
+  await recordRuleHits(rules.hits)
+  for (const paper of unfollowed) {
+    const include = rules.included.get(paper.id)
+    const mute = rules.muted.get(paper.id)
+    if (!include && !mute) continue
+    await db.paper.update({
+      where: { id: paper.id },
+      data: include
+        ? { relevant: true, judgedAt: new Date(), relevanceRationale: `Always included by rule: ${describeRule(include)}` }
+        : { relevant: false, judgedAt: new Date(), rejectionReason: `Muted by rule: ${describeRule(mute!)}` },
+    })
+  }
+  result.judged += rules.included.size + rules.muted.size
+  result.selected += rules.included.size
+  const candidates = unfollowed.filter(p => !rules.included.has(p.id) && !rules.muted.has(p.id))
+  const boosted = candidates.filter(p => rules.boosted.has(p.id))
+
+  // Only papers the filter hasn't seen before cost an LLM call
+  // Judgments record the interest profile version they were made under
+  if (candidates.length > 0) {
+    const interests = await getActiveInterests()
+    result.interestVersionId = interests.versionId
+    const targetCount = Math.max(1, Math.round(candidates.length * SELECTION_RATE))
+
+    // Only the candidates closest to what the user liked go to the LLM filter; the rest
+    // are judged not relevant. If embedding fails, every candidate goes to the filter.
+    let shortlist = candidates
+    try {
+      const ranking = await preRankCandidates(candidates)
+      shortlist = ranking.shortlist
+      const shortlisted = new Set(shortlist.map(p => p.id))
+      for (const [id, score] of ranking.scores) {
+        await db.paper.update({
+          where: { id },
+          data: {
+            similarity: score,
+            rejectionReason: shortlisted.has(id) ? null : `Not among the ${PRERANK_TOP_K} candidates most similar to papers you liked`,
+          },
+        })
+      }
+      if (ranking.liked > 0) {
+        console.log(`Pre-ranked ${candidates.length} candidates against ${ranking.liked} liked papers; kept ${shortlist.length}`)
+      }
+    } catch (error) {
+      result.errors.push(`Embedding pre-ranking failed: ${(error as Error).message}`)
+    }
+    if (boosted.length > 0) {
+      shortlist = [...boosted, ...shortlist.filter(p => !rules.boosted.has(p.id))]
+      await db.paper.updateMany({ where: { id: { in: boosted.map(p => p.id) } }, data: { rejectionReason: null } })
+    }
+    result.shortlisted = shortlist.length
+
+    // Exploration reserves a share of the picks for papers outside the profile. With topic
+    // quotas the filter over-picks so the final selection has room to rebalance.
+    const mix = await getFeedMix()
+    const exploreCount = Math.floor(targetCount * mix.exploration)
+    const profileCount = targetCount - exploreCount
+    const wanted = hasQuotas(mix) ? Math.ceil(profileCount * QUOTA_OVERSELECT) : profileCount
+
+    const keep = Math.max(1, Math.min(wanted, Math.floor(shortlist.length * MAX_FILTER_SHARE)))
+    if (keep < wanted) console.log(`Asking the filter for ${keep} of ${shortlist.length} shortlisted papers rather than ${wanted}`)
+
+    const examples = await getFilterExamples()
+    const { selections, fallbacks } = await filterRelevantPapers(shortlist, keep, interests.content, examples, rules.boosted)
+    result.errors.push(...fallbacks.map(f => `Filter fell back in ${f}`))
+    const picked = new Set(selections.map(s => s.paper.id))
+    const explorations = shuffle(candidates.filter(p => !picked.has(p.id))).slice(0, exploreCount)
+
+    const judgedAt = new Date()
+    for (const selection of selections) {
+      await db.paper.update({
+        where: { id: selection.paper.id },
+        data: {
+          interestVersionId: interests.versionId,
+          judgedAt,
+          rejectionReason: null,
+          relevanceScore: selection.score,
+          matchedInterest: selection.interest,
+          relevanceRationale: selection.rationale,
+        },
+      })
+    }
+
+    // Quotas apply to the tags the filter gave its picks, so only the papers that make the
+    // final selection are extracted (by the sweep below). Explorations count under the tag
+    // of an earlier extraction, if they have one.
+    const explorationTags = new Map<string, string | null>(
+      (await db.paper.findMany({ where: { id: { in: explorations.map(p => p.id) } }, select: { id: true, tag: true } }))
+        .map(row => [row.id, row.tag])
+    )
+    const mixed = selectWithinMix([
+      ...selections.map(s => ({ id: s.paper.id, tag: s.tag, score: s.score, exploration: false })),
+      ...explorations.map(p => ({ id: p.id, tag: explorationTags.get(p.id) || undefined, exploration: true })),
+    ], targetCount, mix)
+    result.errors.push(...mixed.shortfalls.map(s => `Topic minimum not met for ${s}`))
+
+    const relevantIds = new Set(mixed.selected)
+    for (const id of mixed.selected) {
+      const explored = !picked.has(id)
+      await db.paper.update({
+        where: { id },
+        data: { relevant: true, explored, ...(explored && { interestVersionId: interests.versionId, judgedAt }) },
+      })
+    }
+    for (const [id, reason] of mixed.cut) {
+      await db.paper.update({
+        where: { id },
+        data: { relevant: false, interestVersionId: interests.versionId, judgedAt, rejectionReason: reason },
+      })
+    }
+    await db.paper.updateMany({
+      where: { id: { in: candidates.filter(p => !relevantIds.has(p.id) && !mixed.cut.has(p.id)).map(p => p.id) } },
+      data: { relevant: false, interestVersionId: interests.versionId, judgedAt },
+    })
+    result.judged += candidates.length
+    result.selected += relevantIds.size
+
+    // Selected papers attacking the same idea share one stacked card
+    try {
+      const kept = selections.filter(s => relevantIds.has(s.paper.id))
+      const stacked = await clusterSelectedPapers(kept.map(s => ({ ...s.paper, score: s.score })))
+      if (stacked > 0) console.log(`Stacked ${stacked} selected papers under related ones`)
+    } catch (error) {
+      result.errors.push(`Clustering failed: ${(error as Error).message}`)
+    }
+  }
+
+  // Extract fields for relevant papers that don't have them yet, once any failed
+  // extraction's backoff has passed. Blank cards stored before extraction failures were
+  // tracked, and revised papers still showing their old fields, are redone too.
+  const unprocessed = await db.paper.findMany({
+    where: {
+      relevant: true,
+      OR: [{ processedAt: null }, { question: '' }, { reextractPending: true }],
+      AND: [{ OR: [{ retryExtractionAt: null }, { retryExtractionAt: { lte: new Date() } }] }],
+    },
+  })
+  await extractRows(unprocessed, result)
+
+  return result
+}
+
+
+export const MAX_IMPORT = 20
+
+export interface ImportResult {
+  papers: ProcessedPaper[]
+  failed: { input: string; error: string }[]
+}
+
+// Import papers by ID, URL, or DOI (see parsePaperReference): fetch their metadata, extract
+// fields for any not extracted yet, and put them at the front of the feed or into `deck`
+export async function importPapers(inputs: string[], deck?: string): Promise<ImportResult> {
+  const result: ImportResult = { papers: [], failed: [] }
+
+  let unresolved: PaperReference[] = []
+  for (const input of inputs) {
+    const reference = parsePaperReference(input)
+    if (reference) unresolved.push(reference)
+    else result.failed.push({ input, error: 'Not a recognized paper ID, URL, or DOI' })
+  }
+
+  // Look each reference up in its candidate sources, in order, batching per source
+  const resolved: { input: string; paper: SourcePaper }[] = []
+  for (const source of PAPER_SOURCES) {
+    const wanted = unresolved.filter(r => r.sources.includes(source.name))
+    if (wanted.length === 0) continue
+    const papers = await source.fetchByIds([...new Set(wanted.map(r => r.externalId))])
+    for (const reference of wanted) {
+      const paper = papers.find(p => p.externalId.toLowerCase() === reference.externalId.toLowerCase())
+      if (paper) resolved.push({ input: reference.input, paper })
+    }
+    unresolved = unresolved.filter(r => !resolved.some(found => found.input === r.input))
+  }
+  for (const reference of unresolved) {
+    result.failed.push({ input: reference.input, error: 'Paper not found' })
+  }
+
+  const unique = [...new Map(resolved.map(r => [r.paper.id, r])).values()]
+  await Promise.all(unique.map(async ({ input, paper }) => {
+    try {
+      let row = await db.paper.findUnique({ where: { id: paper.id } })
+      if (!row) row = await db.paper.create({ data: { id: paper.id, ...listingFields(paper) } })
+      if (!row.processedAt) {
+        // A failed paper is left unextracted, so importing it again retries
+        const [outcome] = await extractPapers([row], '/api/papers/import')
+        if (outcome.error) throw new Error(outcome.error)
+      }
+
+      if (deck) {
+        await db.deckPaper.upsert({
+          where: { deck_paperId: { deck, paperId: paper.id } },
+          update: { addedAt: new Date() },
+          create: { deck, paperId: paper.id },
+        })
+      } else {
+        await db.paper.update({ where: { id: paper.id }, data: { relevant: true, importedAt: new Date() } })
+      }
+    } catch (error) {
+      result.failed.push({ input, error: (error as Error).message })
+    }
+  }))
+
+  // Return the cards in the order they were asked for
+  const failedInputs = new Set(result.failed.map(f => f.input))
+  const rows = await db.paper.findMany({
+    where: { id: { in: unique.filter(r => !failedInputs.has(r.input)).map(r => r.paper.id) } },
+    include: { revisions: { orderBy: { detectedAt: 'desc' }, take: 1 } },
+  })
+  result.papers = unique
+    .map(r => rows.find(row => row.id === r.paper.id))
+    .filter((row): row is NonNullable<typeof row> => !!row)
+    .map(toProcessedPaper)
+  return result
+}
+
+
+// Move a paper the filter rejected into the feed, extracting its fields first if needed.
+// Returns an error message when it can't be rescued.
+export async function rescuePaper(id: string): Promise<{ paper?: ProcessedPaper; error?: string }> {
+  const row = await db.paper.findUnique({ where: { id } })
+  if (!row) return { error: 'Paper not found' }
+  if (row.relevant !== false) return { error: 'Paper was not filtered out' }
+
+  if (!row.processedAt) {
+    const [outcome] = await extractPapers([row], '/api/papers/rejected')
+    if (outcome.error) return { error: outcome.error }
+  }
+  const rescued = await db.paper.update({
+    where: { id },
+    data: { relevant: true, importedAt: new Date() },
+    include: { revisions: { orderBy: { detectedAt: 'desc' }, take: 1 } },
+  })
+  return { paper: toProcessedPaper(rescued) }
+}
+
+
+export interface PromptComparison {
+  versionId: string
+  version: number
+  fields?: ExtractedFields
+  error?: string
+}
+
+// Run two or more versions of the extraction prompt on a stored paper, side by side,
+// without saving anything. The full-text excerpt is fetched once and shared.
+export async function compareExtractionPrompts(
+  paperId: string,
+  versionIds: string[],
+): Promise<{ paper?: ProcessedPaper; outputs?: PromptComparison[]; error?: string }> {
+  const row = await db.paper.findUnique({ where: { id: paperId } })
+  if (!row) return { error: 'Paper not found' }
+  const prompts = await Promise.all(versionIds.map(getPromptVersion))
+  if (prompts.some(p => !p || p.name !== 'extraction')) return { error: 'Every version must be an extraction prompt' }
+
+  const paper = toProcessedPaper(row)
+  const excerpt = await getPaperSource(paper.source).fetchExcerpt(paper.externalId)
+  const outputs = await Promise.all(prompts.map(async prompt => {
+    try {
+      const fields = await extractFields(paper, excerpt, prompt!, { route: '/api/prompts/compare' })
+      return { versionId: prompt!.versionId, version: prompt!.version, fields }
+    } catch (error) {
+      return { versionId: prompt!.versionId, version: prompt!.version, error: (error as Error).message }
+    }
+  }))
+  return { paper, outputs }
+}
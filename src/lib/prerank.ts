@@ -0,0 +1,48 @@
+import { db } from '@/lib/db'
+import { centroid, embedPapers, similarity } from '@/lib/embeddings'
+import { canonicalPaperId } from '@/lib/sources'
+import type { SourcePaper } from '@/lib/sources/types'
+
+// Grades that count as liking a paper (bookmarks count too)
+const LIKED_GRADES = ['A+', 'A', 'A-']
+
+// How many candidates the LLM filter sees per run at most
+export const PRERANK_TOP_K = parseInt(process.env.PRERANK_TOP_K || '50')
+
+export interface PreRanking {
+  shortlist: SourcePaper[]       // best first
+  scores: Map<string, number>    // similarity of every candidate to the liked centroid
+  liked: number                  // how many liked papers the centroid was built from
+}
+
+async function getLikedPapers() {
+  const [grades, bookmarks] = await Promise.all([
+    db.paperGrade.findMany({ where: { grade: { in: LIKED_GRADES } }, select: { paperId: true } }),
+    db.bookmark.findMany({ select: { paperId: true } }),
+  ])
+  const ids = [...new Set([...grades, ...bookmarks].map(r => canonicalPaperId(r.paperId)))]
+  return db.paper.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, title: true, abstract: true },
+  })
+}
+
+// Score candidates by cosine similarity between their embedding and the centroid of
+// A-graded and bookmarked papers, and keep the top K for the LLM filter. With nothing
+// liked yet there's nothing to compare against, so candidates pass through unranked.
+export async function preRankCandidates(candidates: SourcePaper[], topK: number = PRERANK_TOP_K): Promise<PreRanking> {
+  const liked = await getLikedPapers()
+  if (liked.length === 0) {
+    return { shortlist: candidates, scores: new Map(), liked: 0 }
+  }
+
+  const vectors = await embedPapers([...liked, ...candidates])
+  const target = centroid(liked.map(p => vectors.get(p.id)!).filter(Boolean))!
+
+  const scores = new Map<string, number>(candidates.map(p => [p.id, similarity(vectors.get(p.id)!, target)]))
+  const shortlist = [...candidates]
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!)
+    .slice(0, topK)
+
+  return { shortlist, scores, liked: liked.length }
+}
@@ -0,0 +1,133 @@
+import { db } from '@/lib/db'
+import { completeJson } from '@/lib/llm'
+import { diffLines } from '@/lib/diff'
+import { getActiveInterests } from '@/lib/interest-profiles'
+import { getActivePrompt, renderPrompt } from '@/lib/prompts'
+import { canonicalPaperId } from '@/lib/sources'
+
+// A paper the proposal can cite: its grade (if graded) and whether it's bookmarked
+export interface TuningEvidence {
+  paperId: string
+  title: string
+  tag?: string
+  grade?: string
+  bookmarked: boolean
+}
+
+// One line of the proposed profile. Added and removed lines can each be accepted or
+// rejected; changed lines carry the model's reason and the papers behind it.
+export interface ProposalLine {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+  rationale?: string
+  evidence?: TuningEvidence[]
+}
+
+export interface InterestProposal {
+  profileId: string
+  profileName: string
+  baseVersion: number
+  lines: ProposalLine[]
+  summary: string
+}
+
+export type TuningPaper = TuningEvidence & { abstract: string }
+
+const GRADE_LIMIT = 40
+const BOOKMARK_LIMIT = 20
+
+// Fewer graded/bookmarked papers than this isn't enough to learn from
+export const MIN_TUNING_SIGNALS = 3
+
+// Recently graded and bookmarked papers, with their stored metadata
+export async function collectTuningEvidence(): Promise<TuningPaper[]> {
+  const [grades, bookmarks] = await Promise.all([
+    db.paperGrade.findMany({ orderBy: { updatedAt: 'desc' }, take: GRADE_LIMIT }),
+    db.bookmark.findMany({ orderBy: { createdAt: 'desc' }, take: BOOKMARK_LIMIT }),
+  ])
+
+  const gradeById = new Map<string, string>(grades.map(g => [canonicalPaperId(g.paperId), g.grade]))
+  const bookmarked = new Set<string>(bookmarks.map(b => canonicalPaperId(b.paperId)))
+
+  const papers = await db.paper.findMany({
+    where: { id: { in: [...new Set([...gradeById.keys(), ...bookmarked])] } },
+  })
+  return papers.map(paper => ({
+    paperId: paper.id,
+    title: paper.title,
+    tag: paper.tag ?? undefined,
+    grade: gradeById.get(paper.id),
+    bookmarked: bookmarked.has(paper.id),
+    abstract: paper.abstract,
+  }))
+}
+
+// Ask the LLM to revise the active interest profile so it better predicts which papers
+// get high grades and bookmarks, and which get low grades. Returns a line diff against
+// the current version with each change tied to the papers that motivated it.
+export async function proposeInterestUpdate(evidence: TuningPaper[]): Promise<InterestProposal> {
+  const interests = await getActiveInterests()
+  const profile = await db.interestProfileVersion.findUniqueOrThrow({
+    where: { id: interests.versionId },
+    include: { profile: true },
+  })
+
+  const paperList = evidence.map((p, i) => {
+    const signals = [p.grade && `grade ${p.grade}`, p.bookmarked && 'bookmarked'].filter(Boolean).join(', ')
+    return `[P${i}] (${signals}) ${p.tag ? `[${p.tag}] ` : ''}"${p.title}"\n    ${p.abstract.slice(0, 400)}`
+  }).join('\n\n')
+
+  const prompt = await getActivePrompt('tune')
+  const parsed = await completeJson('tune', renderPrompt(prompt, {
+    profile: interests.content,
+    papers: paperList,
+  }), {
+    name: 'interest_profile_update',
+    schema: {
+      type: 'object',
+      properties: {
+        profile: { type: 'string' },
+        summary: { type: 'string' },
+        changes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: { type: 'string' },
+              rationale: { type: 'string' },
+              papers: { type: 'array', items: { type: 'integer' } }
+            },
+            required: ['line', 'rationale', 'papers'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['profile', 'summary', 'changes'],
+      additionalProperties: false
+    }
+  }, { route: '/api/interest-profiles/tune' })
+
+  const changes: { line: string; rationale: string; papers: number[] }[] = parsed.changes || []
+  const toEvidence = (indices: number[]) => indices
+    .filter(i => i >= 0 && i < evidence.length)
+    .map(i => {
+      const { paperId, title, tag, grade, bookmarked } = evidence[i]
+      return { paperId, title, tag, grade, bookmarked }
+    })
+
+  // Attach each rationale to the diff line whose text it quotes
+  const lines: ProposalLine[] = diffLines(interests.content, String(parsed.profile || interests.content).trim())
+    .map(part => {
+      if (part.type === 'equal') return part
+      const change = changes.find(c => c.line.trim() === part.text.trim())
+      return change ? { ...part, rationale: change.rationale, evidence: toEvidence(change.papers) } : part
+    })
+
+  return {
+    profileId: profile.profileId,
+    profileName: profile.profile.name,
+    baseVersion: profile.version,
+    lines,
+    summary: parsed.summary || '',
+  }
+}
@@ -0,0 +1,175 @@
+// The app's LLM prompts as first shipped. Each is stored as v1 the first time it's needed
+// (see getActivePrompt); edited versions live in the database. `{{name}}` placeholders are
+// filled by the caller with the listed variables.
+
+export const PROMPT_NAMES = ['filter', 'extraction', 'feedback', 'chat-guessing', 'chat', 'report', 'tune'] as const
+export type PromptName = typeof PROMPT_NAMES[number]
+
+export interface PromptDefinition {
+  label: string
+  description: string
+  variables: Record<string, string>   // name → what the caller fills in
+  system: string
+  user: string                        // empty when the user turns are a conversation
+}
+
+export const PROMPT_DEFINITIONS: Record<PromptName, PromptDefinition> = {
+  filter: {
+    label: 'Relevance filter',
+    description: 'Picks the most relevant papers from a batch of candidates.',
+    variables: {
+      interests: 'The active interest profile',
+      examples: 'Papers you rescued or confirmed rejected, with a lead-in; empty when there are none',
+      paperCount: 'How many papers are listed',
+      count: 'How many to select',
+      priorityNote: 'A sentence on boosted papers; empty when none are boosted',
+      papers: 'The numbered candidates with abstracts',
+    },
+    system: 'You are a helpful research assistant. Your job is to review recent preprints and publications from the fields of AI and Computer Science and select relevant readings based on the user\'s interests. Focus on ambitious or transformational work, not incremental improvements.',
+    user: `My AI-related technical interests:
+
+{{interests}}{{examples}}
+
+Here are {{paperCount}} recent papers. Select the {{count}} most relevant ones. I want papers that introduce genuinely new ideas or directions - things that shift how we think about a problem. Be strict: if a paper is just an incremental improvement or doesn't clearly connect to my interests, skip it. When in doubt about whether something matches an interest, consider whether I'd learn a new *idea* from it vs. just a new *result*. Prefer diversity across subfields.{{priorityNote}}
+
+{{papers}}
+
+For each selected paper, give a relevance score from 0 to 100, the interest from my list it matches (quoted or closely paraphrased), the topic tag it falls under, and one sentence on why.
+
+Respond with JSON: {"selections": [{"index": 0, "score": 85, "interest": "...", "tag": "...", "rationale": "..."}, ...]}`,
+  },
+
+  extraction: {
+    label: 'Question, thesis, and method',
+    description: 'Writes the card fields for a selected paper.',
+    variables: {
+      title: 'The paper\'s title',
+      abstract: 'The paper\'s abstract',
+      content: 'Excerpts of the full text, with a lead-in; empty when unavailable',
+    },
+    system: 'You are an expert at analyzing research papers and extracting key insights. Always respond with valid JSON only.',
+    user: `Extract 4 fields from this paper. Each field must be ONE short sentence - something you can read in under 3 seconds. Plain language, no jargon, but don't lose the actual idea.
+
+Paper Title: {{title}}
+Abstract: {{abstract}}{{content}}
+
+1. TAG: 1-2 word subfield label (e.g., "interpretability", "speculative decoding", "synthetic data"). Not "AI" or "LLM".
+2. QUESTION: Frame the broad problem space as an open-ended question. The question should identify the PROBLEM AREA without hinting at the paper's specific thesis or approach. A good question has many plausible answers — it should be possible to propose a thesis that is completely different from the paper's actual thesis. BAD: "How should we test AI agents on tasks that need combining evidence?" (leaks the thesis). GOOD: "How should we evaluate whether AI agents can actually reason?" For ResNet: "How do you train very deep neural networks?"
+3. THESIS: The belief about the world that motivated this work. This is NOT a summary of the paper - it's the pre-existing conviction that led the researchers to pursue this approach in the first place. It should be something you could disagree with. Think "why this approach?" not "what did they do?" For ResNet: "Deeper is better if you can get gradients to flow."
+4. METHOD: The specific technical trick that operationalizes the thesis. The "how." For ResNet: "Learn f(x)+x instead of f(x) — each layer learns a small correction."
+
+{"tag": "...", "question": "...", "thesis": "...", "method": "..."}`,
+  },
+
+  feedback: {
+    label: 'Guess feedback',
+    description: 'Responds to your thesis and method guesses and asks a follow-up.',
+    variables: {
+      question: 'The card\'s question',
+      thesisGuess: 'Your thesis guess',
+      realThesis: 'The paper\'s thesis',
+      methodGuess: 'Your method guess',
+      realMethod: 'The paper\'s method',
+    },
+    system: `You are a constructive research mentor. A user is practicing scientific thinking by proposing their own thesis and method for a research question, then comparing with what one paper actually did. The paper's approach is ONE valid path, not the ground truth — the user's idea may be equally valid, complementary, or address a different angle entirely. Evaluate the user's ideas on their own merits: are they coherent, creative, and well-reasoned? Then note what's interesting about the contrast with the paper's approach. 2-3 sentences per field max.
+
+Finally, generate a follow-up question that pushes the user UP the abstraction ladder — away from implementation details and toward evaluating their own thinking, examining assumptions, or connecting to the bigger picture. The question should be specific to this paper and these ideas, not generic. Examples of the TYPE of question (do not copy these literally):
+- "What's the minimum evidence that would convince you their thesis better describes reality than yours?"
+- "What assumption are you and the authors both making that might be wrong?"
+- "If you could only run one experiment to distinguish your approach from theirs, what would it be?"
+- "What would the field look like in 5 years if their thesis is right? What about yours?"
+- "Is there a third thesis that explains both your intuition and their results?"
+- "What adjacent problem would become easy to solve if your thesis is correct?"
+- "Where did your intuition for this thesis come from — what prior experience or paper shaped it?"
+- "If someone combined the strongest part of your approach with the strongest part of theirs, what would that look like?"`,
+    user: `Question the paper addresses: {{question}}
+
+Thesis (the belief about the world that motivated the work):
+- User's guess: {{thesisGuess}}
+- Paper's actual thesis: {{realThesis}}
+
+Method (the specific technical approach):
+- User's guess: {{methodGuess}}
+- Paper's actual method: {{realMethod}}
+
+Evaluate each idea on its own merits, then reflect on what the contrast between the two approaches reveals.`,
+  },
+
+  'chat-guessing': {
+    label: 'Chat while guessing',
+    description: 'Discusses a paper before you\'ve guessed, without giving the answer away.',
+    variables: {
+      paperContext: 'The title, abstract, and excerpts of the full text',
+      question: 'The card\'s question',
+    },
+    system: `You're discussing a research paper with an ML researcher who is practicing their scientific thinking. They are trying to guess the paper's thesis and method on their own.
+
+IMPORTANT: Do NOT reveal the paper's thesis, method, or key results. Help them think through the problem, clarify the question being asked, and reason about possible approaches — but let them discover the answer themselves.
+
+Paper context:
+{{paperContext}}
+
+The question being explored: {{question}}
+
+Keep responses concise (2-4 sentences). Be a helpful thinking partner, not an answer key.
+
+When writing math, always use dollar-sign delimiters: $x$ for inline math, $$x$$ for display math. Never use \\( \\) or \\[ \\] delimiters. Use standard markdown for code blocks (\`\`\`python etc).`,
+    user: '',
+  },
+
+  chat: {
+    label: 'Chat',
+    description: 'Discusses a paper freely, after feedback or while browsing.',
+    variables: {
+      context: 'The paper, its card fields, and your guesses and feedback if any',
+    },
+    system: `You're discussing a research paper with an ML researcher. Answer their questions, explore implications, debate ideas, and help them think deeply about the work. Be concise but substantive (2-4 sentences unless they ask for more detail).
+
+When writing math, always use dollar-sign delimiters: $x$ for inline math, $$x$$ for display math. Never use \\( \\) or \\[ \\] delimiters. Use standard markdown for code blocks (\`\`\`python etc).
+
+{{context}}`,
+    user: '',
+  },
+
+  report: {
+    label: 'Progress report',
+    description: 'Analyzes patterns across your recent guesses.',
+    variables: {
+      count: 'How many exercises are summarized',
+      summary: 'Each exercise: paper, question, both theses and methods, and feedback',
+    },
+    system: 'You are analyzing a researcher\'s practice sessions where they guess the thesis and method of ML papers before seeing the real answers. Provide a concise, specific analysis — not generic encouragement. Use concrete examples from their actual guesses.',
+    user: `Here are my {{count}} most recent paper exercises:
+
+{{summary}}
+
+Analyze my patterns across these sessions:
+1. Which subfields do I predict well vs poorly?
+2. What recurring mental models or assumptions show up in my guesses?
+3. What types of approaches do I consistently miss or underweight?
+4. Any improvement trajectory visible over time?
+
+Be specific — reference particular papers and guesses. Keep it to 3-4 short paragraphs.`,
+  },
+
+  tune: {
+    label: 'Profile tuning',
+    description: 'Proposes edits to the interest profile from your grades and bookmarks.',
+    variables: {
+      profile: 'The active interest profile',
+      papers: 'The numbered graded and bookmarked papers',
+    },
+    system: 'You maintain a research interest profile that an LLM filter uses to pick papers for a reader. You revise it so it better predicts what the reader actually values, making small, targeted edits and keeping everything the evidence does not contradict.',
+    user: `Current interest profile (markdown):
+
+{{profile}}
+
+Papers I've graded (A+ best, F worst) or bookmarked recently:
+
+{{papers}}
+
+Propose a revised profile. Only change what these papers give evidence for: interests the high-graded or bookmarked papers show that the profile misses or underweights, and interests the profile claims that low-graded papers contradict. Keep the existing wording and line structure wherever possible so the change is easy to review line by line. Every change must cite at least one paper by index, ideally both a high-graded and a low-graded one. If nothing should change, return the profile unchanged with no changes.
+
+Respond with JSON: {"profile": "<full revised markdown>", "summary": "<one sentence>", "changes": [{"line": "<exact text of an added or removed line>", "rationale": "<why>", "papers": [0, 3]}]}`,
+  },
+}
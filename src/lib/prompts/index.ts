@@ -0,0 +1,138 @@
+import type { PromptVersion } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { LLMMessage } from '@/lib/llm'
+import { PROMPT_DEFINITIONS, PROMPT_NAMES, type PromptName } from '@/lib/prompts/defaults'
+
+// One stored version of a prompt, as callers render it
+export interface ActivePrompt {
+  versionId: string
+  name: PromptName
+  version: number
+  system: string
+  user: string
+}
+
+export interface PromptVersionSummary {
+  id: string
+  version: number
+  system: string
+  user: string
+  note?: string
+  active: boolean
+  createdAt: string
+}
+
+export interface PromptView {
+  name: PromptName
+  label: string
+  description: string
+  variables: Record<string, string>
+  userTemplate: boolean              // false when the user turns are a conversation
+  versions: PromptVersionSummary[]   // newest first
+}
+
+const toActive = (row: PromptVersion): ActivePrompt => ({
+  versionId: row.id,
+  name: row.name as PromptName,
+  version: row.version,
+  system: row.system,
+  user: row.user,
+})
+
+const toSummary = (row: PromptVersion): PromptVersionSummary => ({
+  id: row.id,
+  version: row.version,
+  system: row.system,
+  user: row.user,
+  note: row.note ?? undefined,
+  active: row.active,
+  createdAt: row.createdAt.toISOString(),
+})
+
+// The version calls use. With none stored, the built-in text is stored as v1 so every
+// output can point at a stored version.
+export async function getActivePrompt(name: PromptName): Promise<ActivePrompt> {
+  const row = await db.promptVersion.findFirst({ where: { name, active: true } })
+  if (row) return toActive(row)
+  const { system, user } = PROMPT_DEFINITIONS[name]
+  return toActive(await db.promptVersion.upsert({
+    where: { name_version: { name, version: 1 } },
+    update: { active: true },
+    create: { name, version: 1, system, user, note: 'Built-in', active: true },
+  }))
+}
+
+export async function getPromptVersion(id: string): Promise<ActivePrompt | null> {
+  const row = await db.promptVersion.findUnique({ where: { id } })
+  return row && toActive(row)
+}
+
+export async function findPromptVersion(name: PromptName, version: number): Promise<ActivePrompt | null> {
+  const row = await db.promptVersion.findUnique({ where: { name_version: { name, version } } })
+  return row && toActive(row)
+}
+
+// Every prompt with its versions, seeding the built-in ones
+export async function listPrompts(): Promise<PromptView[]> {
+  for (const name of PROMPT_NAMES) await getActivePrompt(name)
+  const rows = await db.promptVersion.findMany({ orderBy: { version: 'desc' } })
+  return PROMPT_NAMES.map(name => {
+    const { label, description, variables, user } = PROMPT_DEFINITIONS[name]
+    return {
+      name, label, description, variables,
+      userTemplate: user !== '',
+      versions: rows.filter(r => r.name === name).map(toSummary),
+    }
+  })
+}
+
+// Store an edit as the prompt's next version, unless it matches the latest one. New
+// versions aren't used until activated, so they can be compared first.
+export async function savePromptVersion(
+  name: PromptName,
+  template: { system: string; user: string; note?: string },
+): Promise<PromptVersion> {
+  const latest = await db.promptVersion.findFirst({ where: { name }, orderBy: { version: 'desc' } })
+  if (latest && latest.system === template.system && latest.user === template.user) return latest
+  return db.promptVersion.create({
+    data: { name, version: (latest?.version ?? 0) + 1, ...template },
+  })
+}
+
+// Make `id` the version its prompt uses, deactivating the others
+export async function activatePromptVersion(id: string): Promise<PromptVersion> {
+  return db.$transaction(async tx => {
+    const row = await tx.promptVersion.findUniqueOrThrow({ where: { id } })
+    await tx.promptVersion.updateMany({ where: { name: row.name, active: true }, data: { active: false } })
+    return tx.promptVersion.update({ where: { id }, data: { active: true } })
+  })
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g
+
+// Returns an error message, or null if the template only uses the prompt's variables
+export function validatePromptTemplate(name: PromptName, template: { system: string; user: string }): string | null {
+  if (!template.system.trim()) return 'The system prompt cannot be empty'
+  if (!PROMPT_DEFINITIONS[name].user && template.user.trim()) return `${name} takes no user template; its user turns are the conversation`
+  const known = PROMPT_DEFINITIONS[name].variables
+  for (const text of [template.system, template.user]) {
+    for (const [, variable] of text.matchAll(PLACEHOLDER)) {
+      if (!(variable in known)) return `Unknown variable {{${variable}}}; ${name} has ${Object.keys(known).map(v => `{{${v}}}`).join(', ')}`
+    }
+  }
+  return null
+}
+
+// Fill the placeholders and return the messages to send. Prompts without a user template
+// (chat) return just the system message; the caller appends the conversation.
+export function renderPrompt(prompt: ActivePrompt, variables: Record<string, string | number>): LLMMessage[] {
+  const fill = (text: string) => text.replace(PLACEHOLDER, (_, variable: string) => {
+    if (!(variable in variables)) throw new Error(`${prompt.name} v${prompt.version} uses unknown variable {{${variable}}}`)
+    return String(variables[variable])
+  })
+  const messages: LLMMessage[] = [{ role: 'system', content: fill(prompt.system) }]
+  if (prompt.user.trim()) messages.push({ role: 'user', content: fill(prompt.user) })
+  return messages
+}
+
+export { PROMPT_DEFINITIONS, PROMPT_NAMES, type PromptName } from '@/lib/prompts/defaults'
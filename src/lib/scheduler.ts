@@ -0,0 +1,127 @@
+import { db } from '@/lib/db'
+import { runIngestion } from '@/lib/pipeline'
+import { RECENT_DAYS, type DateRange } from '@/lib/sources/types'
+
+// server.ts and the Next.js route bundle each get their own copy of this module,
+// so run state lives on globalThis to keep a manual trigger from overlapping a scheduled run
+const globalForScheduler = globalThis as unknown as {
+  ingestTimer: ReturnType<typeof setInterval> | undefined
+  ingestRun: Promise<string> | undefined
+  ingestRunRange: string | undefined                     // rangeKey of the run in progress
+  queuedBackfills: Map<string, Promise<string>> | undefined
+}
+
+const DEFAULT_INTERVAL_MINUTES = 60
+
+export type IngestTrigger = 'schedule' | 'manual' | 'startup' | 'backfill'
+
+const rangeKey = (range?: DateRange) => range ? `${range.from.toISOString()}/${range.to.toISOString()}` : undefined
+
+// Run one ingestion pass and record it as an IngestRun. Returns the run ID. Runs never
+// overlap: while one is in progress, a call for the same range (or for no range) gets that
+// run's ID, and a call for another range is queued to run after it.
+export function triggerIngestRun(trigger: IngestTrigger, range?: DateRange): Promise<string> {
+  const key = rangeKey(range)
+  const current = globalForScheduler.ingestRun
+  if (current) {
+    if (!key || key === globalForScheduler.ingestRunRange) return current
+    const queuedBackfills = globalForScheduler.queuedBackfills ??= new Map()
+    const queued = queuedBackfills.get(key)
+    if (queued) return queued
+    const next = current.catch(() => undefined).then(() => {
+      queuedBackfills.delete(key)
+      return triggerIngestRun(trigger, range)
+    })
+    queuedBackfills.set(key, next)
+    return next
+  }
+
+  const run = (async () => {
+    const record = await db.ingestRun.create({
+      data: { trigger, status: 'running', rangeStart: range?.from, rangeEnd: range?.to },
+    })
+    console.log(`Ingestion run ${record.id} started (${trigger})`)
+
+    try {
+      const result = await runIngestion(range)
+      await db.ingestRun.update({
+        where: { id: record.id },
+        data: {
+          status: 'succeeded',
+          finishedAt: new Date(),
+          fetched: result.fetched,
+          newPapers: result.newPapers,
+          judged: result.judged,
+          shortlisted: result.shortlisted,
+          selected: result.selected,
+          extracted: result.extracted,
+          deferred: result.deferred,
+          revised: result.revised,
+          errors: JSON.stringify(result.errors),
+          interestVersionId: result.interestVersionId,
+        },
+      })
+      console.log(`Ingestion run ${record.id} finished: ${result.selected} selected, ${result.extracted} extracted, ${result.deferred} deferred, ${result.revised} revised, ${result.errors.length} errors`)
+    } catch (error) {
+      console.error(`Ingestion run ${record.id} failed:`, error)
+      await db.ingestRun.update({
+        where: { id: record.id },
+        data: {
+          status: 'failed',
+          finishedAt: new Date(),
+          errors: JSON.stringify([(error as Error).message]),
+        },
+      })
+    }
+    return record.id
+  })()
+
+  globalForScheduler.ingestRun = run
+  globalForScheduler.ingestRunRange = key
+  const clear = () => {
+    globalForScheduler.ingestRun = undefined
+    globalForScheduler.ingestRunRange = undefined
+  }
+  run.then(clear, clear)
+  return run
+}
+
+export function isIngestRunning(): boolean {
+  return globalForScheduler.ingestRun !== undefined
+}
+
+// Whether a successful run has already covered every day in `range`: either a backfill
+// of that range, or a regular run whose recent-papers window reached back far enough
+export async function hasHarvestedRange(range: DateRange): Promise<boolean> {
+  const windowStart = new Date(range.from)
+  windowStart.setDate(windowStart.getDate() + RECENT_DAYS)
+
+  const covering = await db.ingestRun.findFirst({
+    where: {
+      status: 'succeeded',
+      OR: [
+        { rangeStart: { lte: range.from }, rangeEnd: { gte: range.to } },
+        { rangeStart: null, startedAt: { gte: range.to, lte: windowStart } },
+      ],
+    },
+  })
+  return covering !== null
+}
+
+// Start periodic ingestion. INGEST_INTERVAL_MINUTES sets the period; 0 disables the schedule
+// (manual runs via POST /api/ingest still work).
+export function startIngestScheduler() {
+  const intervalMinutes = parseFloat(process.env.INGEST_INTERVAL_MINUTES ?? `${DEFAULT_INTERVAL_MINUTES}`)
+  if (!(intervalMinutes > 0)) {
+    console.log('> Ingestion scheduler disabled (INGEST_INTERVAL_MINUTES=0)')
+    return
+  }
+  if (globalForScheduler.ingestTimer) clearInterval(globalForScheduler.ingestTimer)
+
+  triggerIngestRun('startup').catch(err => console.error('Startup ingestion failed:', err))
+  globalForScheduler.ingestTimer = setInterval(() => {
+    triggerIngestRun('schedule').catch(err => console.error('Scheduled ingestion failed:', err))
+  }, intervalMinutes * 60 * 1000)
+
+  console.log(`> Ingestion scheduler running every ${intervalMinutes} minutes`)
+}
@@ -0,0 +1,64 @@
+import type { SourceProfile } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { SourceConfig } from '@/lib/sources/types'
+
+export const DEFAULT_SOURCE_CONFIG: SourceConfig = {
+  name: 'Default',
+  categories: ['cs.AI', 'cs.LG', 'cs.CL', 'cs.NE', 'cs.IR', 'cs.HC', 'cs.SE', 'cs.PL', 'cs.MA', 'stat.ML'],
+  searchQueries: [],
+  excludedCategories: [],
+  biorxivServers: [],
+  biorxivCategories: [],
+  openreviewVenues: [],
+}
+
+const BIORXIV_SERVERS = ['biorxiv', 'medrxiv']
+
+const CATEGORY_PATTERN = /^[a-z-]+(\.[A-Za-z-]+)?$/
+
+export function toSourceConfig(row: SourceProfile): SourceConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    categories: JSON.parse(row.categories),
+    searchQueries: JSON.parse(row.searchQueries),
+    excludedCategories: JSON.parse(row.excludedCategories),
+    biorxivServers: JSON.parse(row.biorxivServers),
+    biorxivCategories: JSON.parse(row.biorxivCategories),
+    openreviewVenues: JSON.parse(row.openreviewVenues),
+  }
+}
+
+// Returns an error message, or null if the config is usable
+export function validateSourceConfig(config: SourceConfig): string | null {
+  if (!config.name?.trim()) return 'Profile name is required'
+  const sourceCount = config.categories.length + config.searchQueries.length
+    + config.biorxivServers.length + config.openreviewVenues.length
+  if (sourceCount === 0) {
+    return 'At least one arXiv category or search query, bioRxiv server, or OpenReview venue is required'
+  }
+  const badCategory = [...config.categories, ...config.excludedCategories].find(c => !CATEGORY_PATTERN.test(c))
+  if (badCategory) return `Invalid arXiv category: ${badCategory}`
+  const badServer = config.biorxivServers.find(s => !BIORXIV_SERVERS.includes(s))
+  if (badServer) return `Unknown server: ${badServer} (expected ${BIORXIV_SERVERS.join(' or ')})`
+  return null
+}
+
+// The active profile drives ingestion; with none saved we use the built-in default
+export async function getActiveSourceConfig(): Promise<SourceConfig> {
+  const row = await db.sourceProfile.findFirst({ where: { active: true } })
+  return row ? toSourceConfig(row) : DEFAULT_SOURCE_CONFIG
+}
+
+// Build the arXiv search_query expressions for a profile
+export function buildArxivQueries(config: SourceConfig): string[] {
+  const queries: string[] = []
+  if (config.categories.length > 0) {
+    queries.push(config.categories.map(c => `cat:${c}`).join(' OR '))
+  }
+  queries.push(...config.searchQueries.filter(q => q.trim()))
+
+  if (config.excludedCategories.length === 0) return queries
+  const excluded = config.excludedCategories.map(c => `cat:${c}`).join(' OR ')
+  return queries.map(q => `(${q}) ANDNOT (${excluded})`)
+}
@@ -1,16 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { fetchArxivPapersByIds, searchArxivPapers, type ArxivPaper } from '@/lib/arxiv'
+import { arxivFetch, arxivFetchText } from '@/lib/arxiv-client'
+import { excerptForExtraction, htmlToText } from '@/lib/sources/text'
+import type { PaperSource, SourcePaper } from '@/lib/sources/types'
+
+
+function toSourcePaper(paper: ArxivPaper): SourcePaper {
+  const { id, arxivUrl, ...rest } = paper
+  return { ...rest, id: `arxiv:${id}`, source: 'arxiv', externalId: id, url: arxivUrl }
+}
+
 
 // Fetch and extract full paper content from arXiv
-async function fetchFullPaperContent(arxivId: string): Promise<string> {
+async function fetchFullText(arxivId: string): Promise<string> {
   try {
     // Method 1: Try arXiv's text format API
     console.log(`Trying text format for ${arxivId}...`)
     const textUrl = `https://arxiv.org/e-print/${arxivId}`
     
     try {
-      const textResponse = await fetch(textUrl)
+      const textResponse = await arxivFetch(textUrl)
       if (textResponse.ok) {
-        const buffer = await textResponse.arrayBuffer()
+        const buffer = textResponse.body
         
         // Try to detect if it's a gzip compressed file
         const uint8Array = new Uint8Array(buffer)
@@ -41,7 +51,7 @@ async function fetchFullPaperContent(arxivId: string): Promise<string> {
         }
       }
     } catch (error) {
-      console.log(`Text format failed for ${arxivId}:`, error.message)
+      console.log(`Text format failed for ${arxivId}:`, (error as Error).message)
     }
     
     // Method 2: Try HTML version with better extraction
@@ -49,9 +59,9 @@ async function fetchFullPaperContent(arxivId: string): Promise<string> {
     const htmlUrl = `https://arxiv.org/html/${arxivId}`
     
     try {
-      const htmlResponse = await fetch(htmlUrl)
+      const htmlResponse = await arxivFetchText(htmlUrl)
       if (htmlResponse.ok) {
-        const html = await htmlResponse.text()
+        const html = htmlResponse.text
         
         // Better HTML text extraction
         let text = html
@@ -77,19 +87,19 @@ async function fetchFullPaperContent(arxivId: string): Promise<string> {
         }
       }
     } catch (error) {
-      console.log(`HTML extraction failed for ${arxivId}:`, error.message)
+      console.log(`HTML extraction failed for ${arxivId}:`, (error as Error).message)
     }
     
     // Method 3: Try to get LaTeX source and extract text
     console.log(`Trying LaTeX source for ${arxivId}...`)
     try {
-      const latexResponse = await fetch(`https://arxiv.org/e-print/${arxivId}`)
+      const latexResponse = await arxivFetchText(`https://arxiv.org/e-print/${arxivId}`)
       if (latexResponse.ok) {
-        const latex = await latexResponse.text()
+        const latex = latexResponse.text
         
         // Extract text from LaTeX
         let text = latex
-          .removeComments()
+          .replace(/%.*$/gm, '') // Remove LaTeX comments
           .replace(/\\[a-zA-Z]+\{[^}]*\}/g, '') // Remove LaTeX commands
           .replace(/[^a-zA-Z0-9\s.,;:!?()-]/g, ' ') // Keep only basic chars
           .replace(/\s+/g, ' ')
@@ -101,51 +111,48 @@ async function fetchFullPaperContent(arxivId: string): Promise<string> {
         }
       }
     } catch (error) {
-      console.log(`LaTeX extraction failed for ${arxivId}:`, error.message)
+      console.log(`LaTeX extraction failed for ${arxivId}:`, (error as Error).message)
     }
     
-    // If all methods fail, return a more informative message
     console.log(`All extraction methods failed for ${arxivId}`)
-    return `Full paper content extraction is currently unavailable for this paper.\n\nPaper ID: ${arxivId}\nDirect PDF link: https://arxiv.org/pdf/${arxivId}.pdf\n\nThe automatic text extraction encountered issues. Please use the arXiv link above to view the full paper directly.`
-    
+    return ''
   } catch (error) {
     console.error(`Error fetching full content for ${arxivId}:`, error)
-    return `Error fetching paper content for ${arxivId}. Please visit arXiv directly.`
+    return ''
   }
 }
 
-// Helper function to remove LaTeX comments
-String.prototype.removeComments = function() {
-  return this.replace(/%.*$/gm, '')
-}
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// Fetch the arXiv HTML rendering for the extraction prompt
+async function fetchExcerpt(arxivId: string): Promise<string> {
   try {
-    const { id: arxivId } = await params
-    
-    if (!arxivId) {
-      return NextResponse.json(
-        { error: 'Paper ID is required' },
-        { status: 400 }
-      )
-    }
+    const response = await arxivFetchText(`https://arxiv.org/html/${arxivId}`, { timeoutMs: 15000 })
+    if (!response.ok) return ''
 
-    // Fetch full paper content
-    const content = await fetchFullPaperContent(arxivId)
-    
-    return NextResponse.json({
-      id: arxivId,
-      content,
-      hasContent: content.length > 0
-    })
+    const text = excerptForExtraction(htmlToText(response.text))
+    if (text) console.log(`Fetched ${text.length} chars of content for ${arxivId}`)
+    return text
   } catch (error) {
-    console.error('Error in paper content API:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch paper content' },
-      { status: 500 }
-    )
+    console.log(`Content fetch failed for ${arxivId}:`, (error as Error).message)
+    return ''
   }
-}
\ No newline at end of file
+}
+
+
+export const arxivSource: PaperSource = {
+  name: 'arxiv',
+  label: 'arXiv',
+
+  async search(config, maxResults, range) {
+    const papers = await searchArxivPapers(config, maxResults, 0, range)
+    return papers.map(toSourcePaper)
+  },
+
+  async fetchByIds(externalIds) {
+    const papers = await fetchArxivPapersByIds(externalIds)
+    return papers.map(toSourcePaper)
+  },
+
+  fetchFullText,
+  fetchExcerpt,
+}
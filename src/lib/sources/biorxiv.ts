@@ -0,0 +1,149 @@
+import { RECENT_DAYS, type PaperSource, type SourcePaper } from '@/lib/sources/types'
+import { excerptForExtraction, htmlToText } from '@/lib/sources/text'
+
+// bioRxiv and medRxiv share one API (https://api.biorxiv.org), keyed by server name.
+// Papers are identified by DOI; the details endpoint returns one record per version.
+
+interface RxivRecord {
+  doi: string
+  title: string
+  authors: string              // "Last, F.; Other, A."
+  author_corresponding_institution?: string
+  date: string                 // YYYY-MM-DD this version was posted
+  version: string
+  category: string
+  abstract: string
+  published: string            // DOI of the journal version, or "NA"
+  server?: string
+  jatsxml?: string
+}
+
+const API_BASE = 'https://api.biorxiv.org/details'
+const PAGE_SIZE = 100
+const TIMEOUT_MS = 30000
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`${new URL(url).host} returned ${response.status}`)
+  return response.json()
+}
+
+function toSourcePaper(server: string, record: RxivRecord, firstPostedAt: string): SourcePaper {
+  const version = parseInt(record.version) || 1
+  const authors = record.authors.split(';').map(a => a.trim()).filter(Boolean)
+  const category = record.category.trim().toLowerCase()
+  const url = `https://www.${server}.org/content/${record.doi}v${version}`
+  return {
+    id: `${server}:${record.doi}`,
+    source: server,
+    externalId: record.doi,
+    version,
+    title: record.title.replace(/\s+/g, ' ').trim(),
+    authors,
+    // Only the corresponding author's institution is given
+    authorAffiliations: authors.length > 0 && record.author_corresponding_institution
+      ? { [authors[authors.length - 1]]: [record.author_corresponding_institution] }
+      : {},
+    abstract: record.abstract.replace(/\s+/g, ' ').trim(),
+    url,
+    pdfUrl: `${url}.full.pdf`,
+    publishedAt: new Date(`${firstPostedAt}T00:00:00.000Z`).toISOString(),
+    updatedAt: new Date(`${record.date}T00:00:00.000Z`).toISOString(),
+    primaryCategory: category || undefined,
+    categories: category ? [category] : [],
+    // Only the journal version's DOI is given, not the journal's name
+    comment: record.published && record.published !== 'NA' ? `Journal version: https://doi.org/${record.published}` : undefined,
+    doi: record.doi,
+  }
+}
+
+// Collapse per-version records into the latest version of each DOI,
+// remembering when the first version was posted
+function latestVersions(server: string, records: RxivRecord[]): SourcePaper[] {
+  const byDoi = new Map<string, { latest: RxivRecord; firstPostedAt: string }>()
+  for (const record of records) {
+    const seen = byDoi.get(record.doi)
+    if (!seen) {
+      byDoi.set(record.doi, { latest: record, firstPostedAt: record.date })
+      continue
+    }
+    if (parseInt(record.version) > parseInt(seen.latest.version)) seen.latest = record
+    if (record.date < seen.firstPostedAt) seen.firstPostedAt = record.date
+  }
+  return [...byDoi.values()].map(({ latest, firstPostedAt }) => toSourcePaper(server, latest, firstPostedAt))
+}
+
+function createRxivSource(server: string, label: string): PaperSource {
+  async function fetchFullText(doi: string): Promise<string> {
+    try {
+      const response = await fetch(`https://www.${server}.org/content/${doi}.full`, { signal: AbortSignal.timeout(TIMEOUT_MS) })
+      if (!response.ok) return ''
+      const text = htmlToText(await response.text())
+      return text.length > 1000 ? text : ''
+    } catch (error) {
+      console.log(`Full text fetch failed for ${label} ${doi}:`, (error as Error).message)
+      return ''
+    }
+  }
+
+  return {
+    name: server,
+    label,
+
+    async search(config, maxResults, range) {
+      if (!config.biorxivServers.includes(server)) return []
+
+      const to = range?.to ?? new Date()
+      const from = range?.from ?? new Date(to.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000)
+      const wanted = new Set(config.biorxivCategories.map(c => c.toLowerCase()))
+
+      // The API pages through the interval oldest first, so collect a bounded
+      // number of pages and keep the newest papers
+      const records: RxivRecord[] = []
+      try {
+        for (let cursor = 0, pages = 0; pages < 10; cursor += PAGE_SIZE, pages++) {
+          const data = await fetchJson(`${API_BASE}/${server}/${toDay(from)}/${toDay(to)}/${cursor}`)
+          const page: RxivRecord[] = data.collection || []
+          records.push(...page)
+          const total = parseInt(data.messages?.[0]?.total ?? '0')
+          if (page.length < PAGE_SIZE || cursor + PAGE_SIZE >= total) break
+        }
+      } catch (error) {
+        console.error(`Error fetching from ${label}:`, error)
+      }
+
+      const papers = latestVersions(server, records)
+        .filter(p => wanted.size === 0 || p.categories.some(c => wanted.has(c)))
+        .filter(p => p.abstract.length > 100)
+        .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+        .slice(0, maxResults)
+
+      console.log(`Fetched ${papers.length} papers from ${label}`)
+      return papers
+    },
+
+    async fetchByIds(externalIds) {
+      const papers: SourcePaper[] = []
+      for (const doi of externalIds) {
+        try {
+          const data = await fetchJson(`${API_BASE}/${server}/${doi}/na/json`)
+          papers.push(...latestVersions(server, data.collection || []))
+        } catch (error) {
+          console.error(`Error fetching ${label} DOI ${doi}:`, error)
+        }
+      }
+      return papers
+    },
+
+    fetchFullText,
+
+    async fetchExcerpt(doi) {
+      return excerptForExtraction(await fetchFullText(doi))
+    },
+  }
+}
+
+export const biorxivSource = createRxivSource('biorxiv', 'bioRxiv')
+export const medrxivSource = createRxivSource('medrxiv', 'medRxiv')
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { canonicalPaperId, parsePaperReference, parseQualifiedId, qualifyId } from '@/lib/sources/ids'
+
+describe('parseQualifiedId', () => {
+  it('splits a qualified ID at the first colon', () => {
+    assert.deepEqual(parseQualifiedId('biorxiv:10.1101/2025.01.01.123456'), { source: 'biorxiv', externalId: '10.1101/2025.01.01.123456' })
+    assert.deepEqual(parseQualifiedId('openreview:abc-123'), { source: 'openreview', externalId: 'abc-123' })
+  })
+
+  it('reads bare IDs from older rows as arXiv IDs', () => {
+    assert.deepEqual(parseQualifiedId('2401.12345'), { source: 'arxiv', externalId: '2401.12345' })
+    assert.deepEqual(parseQualifiedId('hep-th/9901001'), { source: 'arxiv', externalId: 'hep-th/9901001' })
+  })
+
+  it('does not take an unknown prefix for a source', () => {
+    assert.deepEqual(parseQualifiedId('nature:12345'), { source: 'arxiv', externalId: 'nature:12345' })
+  })
+})
+
+describe('canonicalPaperId', () => {
+  it('qualifies bare arXiv IDs and leaves qualified IDs alone', () => {
+    assert.equal(canonicalPaperId('2401.12345'), 'arxiv:2401.12345')
+    assert.equal(canonicalPaperId('arxiv:2401.12345'), 'arxiv:2401.12345')
+    assert.equal(canonicalPaperId(qualifyId('medrxiv', '10.1101/2024.02.03.654321')), 'medrxiv:10.1101/2024.02.03.654321')
+  })
+})
+
+describe('parsePaperReference', () => {
+  it('recognizes arXiv IDs, URLs, and DOIs', () => {
+    assert.deepEqual(parsePaperReference(' 2401.12345v2 '), { input: '2401.12345v2', externalId: '2401.12345', sources: ['arxiv'] })
+    assert.equal(parsePaperReference('https://arxiv.org/pdf/2211.17192v2.pdf')?.externalId, '2211.17192')
+    assert.equal(parsePaperReference('https://arxiv.org/abs/2211.17192?context=cs')?.externalId, '2211.17192')
+    assert.deepEqual(parsePaperReference('doi:10.48550/arXiv.2305.18290'), {
+      input: 'doi:10.48550/arXiv.2305.18290', externalId: '2305.18290', sources: ['arxiv'],
+    })
+  })
+
+  it('tells bioRxiv from medRxiv by the landing page host, and tries both for a bare DOI', () => {
+    assert.deepEqual(parsePaperReference('https://www.biorxiv.org/content/10.1101/2024.01.02.123456v1.full'), {
+      input: 'https://www.biorxiv.org/content/10.1101/2024.01.02.123456v1.full',
+      externalId: '10.1101/2024.01.02.123456',
+      sources: ['biorxiv'],
+    })
+    assert.deepEqual(parsePaperReference('10.1101/2024.01.02.123456')?.sources, ['biorxiv', 'medrxiv'])
+  })
+
+  it('recognizes OpenReview forum URLs and qualified IDs', () => {
+    assert.deepEqual(parsePaperReference('https://openreview.net/forum?id=aBc-12_x')?.externalId, 'aBc-12_x')
+    assert.deepEqual(parsePaperReference('openreview:aBc-12_x')?.sources, ['openreview'])
+  })
+
+  it('returns null for anything else', () => {
+    assert.equal(parsePaperReference('hello world'), null)
+    assert.equal(parsePaperReference('10.1038/s41586-021-03819-2'), null)
+    assert.equal(parsePaperReference('https://example.com/2401.12345'), null)
+  })
+})
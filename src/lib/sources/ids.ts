@@ -0,0 +1,77 @@
+import { parseArxivId } from '@/lib/arxiv-feed'
+
+// Source-qualified paper IDs and pasted paper references. This module loads none of the
+// source adapters, so anything can parse IDs without them.
+
+// The names of PAPER_SOURCES (see index.ts)
+export const PAPER_SOURCE_NAMES = ['arxiv', 'biorxiv', 'medrxiv', 'openreview']
+
+export const qualifyId = (source: string, externalId: string) => `${source}:${externalId}`
+
+// Split a qualified ID ("biorxiv:10.1101/2025.01.01.123456") into its source and
+// external ID. IDs from before sources were qualified are bare arXiv IDs.
+export function parseQualifiedId(id: string): { source: string; externalId: string } {
+  const separator = id.indexOf(':')
+  const prefix = separator > 0 ? id.slice(0, separator) : ''
+  if (PAPER_SOURCE_NAMES.includes(prefix)) {
+    return { source: prefix, externalId: id.slice(separator + 1) }
+  }
+  return { source: 'arxiv', externalId: id }
+}
+
+// The qualified form of any stored paper ID, including bare arXiv IDs from older rows
+// (grades, bookmarks, interactions)
+export function canonicalPaperId(id: string): string {
+  const { source, externalId } = parseQualifiedId(id)
+  return qualifyId(source, externalId)
+}
+
+// A paper someone pasted in: its external ID, and the sources that might have it, in order
+export interface PaperReference {
+  input: string
+  externalId: string
+  sources: string[]
+}
+
+// Recognize an arXiv ID or abs/pdf/html URL, a bioRxiv/medRxiv or arXiv DOI (bare, doi.org,
+// or landing page URL), an OpenReview forum URL, or a source-qualified ID. Returns null otherwise.
+export function parsePaperReference(raw: string): PaperReference | null {
+  const input = raw.trim()
+  if (!input) return null
+
+  const arxivUrl = input.match(/arxiv\.org\/(?:abs|pdf|html)\/([^?#]+?)(?:\.pdf)?\/?(?:[?#].*)?$/i)
+  if (arxivUrl) {
+    const parsed = parseArxivId(arxivUrl[1])
+    return parsed && { input, externalId: parsed.id, sources: ['arxiv'] }
+  }
+
+  const openreview = input.match(/openreview\.net\/(?:forum|pdf)\?(?:.*&)?id=([\w-]+)/i)
+  if (openreview) return { input, externalId: openreview[1], sources: ['openreview'] }
+
+  const doi = input.match(/(?:^|doi:\s*|doi\.org\/|\/content\/)(10\.\d{4,9}\/[^\s?#]+)/i)?.[1]
+  if (doi) {
+    const arxivDoi = doi.match(/^10\.48550\/arxiv\.(.+)$/i)
+    if (arxivDoi) {
+      const parsed = parseArxivId(arxivDoi[1])
+      return parsed && { input, externalId: parsed.id, sources: ['arxiv'] }
+    }
+    // bioRxiv and medRxiv share a DOI prefix; landing page URLs end in a version suffix
+    if (doi.startsWith('10.1101/')) {
+      const externalId = doi.replace(/v\d+(?:\.full(?:\.pdf)?)?$/, '').toLowerCase()
+      const host = input.match(/(biorxiv|medrxiv)\.org/i)?.[1].toLowerCase()
+      return { input, externalId, sources: host ? [host] : ['biorxiv', 'medrxiv'] }
+    }
+    return null
+  }
+
+  if (/^\S+$/.test(input) && input.includes(':')) {
+    const { source, externalId } = parseQualifiedId(input)
+    if (source !== 'arxiv' || input.startsWith('arxiv:')) {
+      const id = source === 'arxiv' ? parseArxivId(externalId)?.id : externalId
+      return id ? { input, externalId: id, sources: [source] } : null
+    }
+  }
+
+  const bare = /^\S+$/.test(input) ? parseArxivId(input) : null
+  return bare && { input, externalId: bare.id, sources: ['arxiv'] }
+}
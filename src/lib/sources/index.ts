@@ -0,0 +1,19 @@
+import { arxivSource } from '@/lib/sources/arxiv'
+import { biorxivSource, medrxivSource } from '@/lib/sources/biorxiv'
+import { openreviewSource } from '@/lib/sources/openreview'
+import type { PaperSource } from '@/lib/sources/types'
+
+// Every source ingestion can read. To add one, implement PaperSource in its own
+// module, list it here and its name in PAPER_SOURCE_NAMES (ids.ts), and add whatever it
+// needs to SourceConfig/SourceProfile.
+export const PAPER_SOURCES: PaperSource[] = [arxivSource, biorxivSource, medrxivSource, openreviewSource]
+
+export function getPaperSource(name: string): PaperSource {
+  const source = PAPER_SOURCES.find(s => s.name === name)
+  if (!source) throw new Error(`Unknown paper source: ${name}`)
+  return source
+}
+
+export {
+  canonicalPaperId, parsePaperReference, parseQualifiedId, qualifyId, type PaperReference,
+} from '@/lib/sources/ids'
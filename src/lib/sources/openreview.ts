@@ -0,0 +1,123 @@
+import type { PaperSource, SourcePaper } from '@/lib/sources/types'
+
+// OpenReview API v2 (https://api2.openreview.net). Submissions to a venue are notes under
+// the `<venue>/-/Submission` invitation; every content field is wrapped as { value }.
+
+interface OpenReviewNote {
+  id: string
+  cdate?: number   // ms since epoch
+  mdate?: number
+  pdate?: number   // set once the paper is published (accepted)
+  content: Record<string, { value?: unknown } | undefined>
+}
+
+const API_BASE = 'https://api2.openreview.net/notes'
+const SITE_BASE = 'https://openreview.net'
+const PAGE_SIZE = 200
+const TIMEOUT_MS = 30000
+
+async function fetchNotes(query: string): Promise<OpenReviewNote[]> {
+  const response = await fetch(`${API_BASE}?${query}`, { signal: AbortSignal.timeout(TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`OpenReview returned ${response.status}`)
+  const data = await response.json()
+  return data.notes || []
+}
+
+const field = (note: OpenReviewNote, name: string) => note.content[name]?.value
+
+function toSourcePaper(note: OpenReviewNote, venue?: string): SourcePaper | null {
+  const title = String(field(note, 'title') ?? '').replace(/\s+/g, ' ').trim()
+  const abstract = String(field(note, 'abstract') ?? '').replace(/\s+/g, ' ').trim()
+  if (!title || !note.cdate) return null
+
+  const authors = Array.isArray(field(note, 'authors')) ? (field(note, 'authors') as string[]) : []
+  const keywords = Array.isArray(field(note, 'keywords')) ? (field(note, 'keywords') as string[]) : []
+  const primaryArea = field(note, 'primary_area') as string | undefined
+  const pdf = field(note, 'pdf') as string | undefined
+  // `venue` reads e.g. "ICLR 2026 Poster" once decided, "Submitted to ICLR 2026" before
+  const venueLabel = field(note, 'venue') as string | undefined
+  const venueId = (field(note, 'venueid') as string | undefined) ?? venue
+
+  return {
+    id: `openreview:${note.id}`,
+    source: 'openreview',
+    externalId: note.id,
+    version: 1,
+    title,
+    authors,
+    authorAffiliations: {},
+    abstract,
+    url: `${SITE_BASE}/forum?id=${note.id}`,
+    pdfUrl: pdf ? `${SITE_BASE}${pdf}` : undefined,
+    publishedAt: new Date(note.cdate).toISOString(),
+    updatedAt: new Date(note.mdate ?? note.cdate).toISOString(),
+    primaryCategory: primaryArea || venueId,
+    categories: [primaryArea, venueId, ...keywords].filter((c, i, all): c is string => !!c && all.indexOf(c) === i),
+    journalRef: note.pdate ? venueLabel : undefined,
+    comment: !note.pdate ? venueLabel : undefined,
+  }
+}
+
+export const openreviewSource: PaperSource = {
+  name: 'openreview',
+  label: 'OpenReview',
+
+  // Conference submissions land in bulk, so without a range this returns the newest
+  // submissions whatever their date; with one, those created within it
+  async search(config, maxResults, range) {
+    if (config.openreviewVenues.length === 0) return []
+
+    const perVenue = Math.ceil(maxResults / config.openreviewVenues.length)
+    const papers: SourcePaper[] = []
+
+    for (const venue of config.openreviewVenues) {
+      try {
+        const invitation = encodeURIComponent(`${venue}/-/Submission`)
+        for (let offset = 0, kept = 0; kept < perVenue; offset += PAGE_SIZE) {
+          const notes = await fetchNotes(`invitation=${invitation}&sort=cdate:desc&limit=${PAGE_SIZE}&offset=${offset}`)
+          for (const note of notes) {
+            const paper = toSourcePaper(note, venue)
+            if (!paper || paper.abstract.length <= 100) continue
+            const created = new Date(paper.publishedAt)
+            if (range && (created < range.from || created > range.to)) continue
+            if (kept++ < perVenue) papers.push(paper)
+          }
+          // Sorted newest first, so once a page is older than the range nothing later matches
+          const oldest = notes[notes.length - 1]?.cdate
+          if (notes.length < PAGE_SIZE || (range && oldest && oldest < range.from.getTime())) break
+        }
+      } catch (error) {
+        console.error(`Error fetching OpenReview venue ${venue}:`, error)
+      }
+    }
+
+    console.log(`Fetched ${papers.length} papers from OpenReview`)
+    return papers
+      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .slice(0, maxResults)
+  },
+
+  async fetchByIds(externalIds) {
+    const papers: SourcePaper[] = []
+    const batchSize = 50
+    for (let i = 0; i < externalIds.length; i += batchSize) {
+      const batch = externalIds.slice(i, i + batchSize)
+      try {
+        const notes = await fetchNotes(`ids=${batch.map(encodeURIComponent).join(',')}`)
+        papers.push(...notes.map(note => toSourcePaper(note)).filter((p): p is SourcePaper => p !== null))
+      } catch (error) {
+        console.error(`Error fetching OpenReview notes ${batch.join(',')}:`, error)
+      }
+    }
+    return papers
+  },
+
+  // OpenReview only hosts PDFs, which we don't parse
+  async fetchFullText() {
+    return ''
+  },
+
+  async fetchExcerpt() {
+    return ''
+  },
+}
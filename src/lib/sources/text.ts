@@ -0,0 +1,17 @@
+// Strip an HTML page down to its visible text
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Trim body text for the extraction prompt: intro/methods (~8k chars) and
+// conclusion (~2k chars) to stay within token budget. Too-short text is treated as missing.
+export function excerptForExtraction(text: string): string {
+  if (text.length < 1000) return ''
+  if (text.length <= 12000) return text
+  return text.slice(0, 8000) + '\n\n[...]\n\n' + text.slice(-2000)
+}
@@ -0,0 +1,60 @@
+// A paper as every part of the pipeline sees it, whatever source it came from
+export interface SourcePaper {
+  id: string              // source-qualified, e.g. "arxiv:2401.12345"
+  source: string          // name of the PaperSource it came from
+  externalId: string      // the source's own ID: arXiv ID, DOI, OpenReview note ID
+  version: number
+  title: string
+  authors: string[]
+  authorAffiliations: Record<string, string[]>
+  abstract: string
+  url: string             // landing page
+  pdfUrl?: string
+  publishedAt: string
+  updatedAt: string
+  primaryCategory?: string
+  categories: string[]
+  comment?: string
+  journalRef?: string     // published venue, when known
+  doi?: string
+  content?: string
+}
+
+// Inclusive range of posting dates
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+// How far back a search without a range looks (listings lag a few days behind)
+export const RECENT_DAYS = 14
+
+// Which sources ingestion reads, and how. Built from the active SourceProfile.
+export interface SourceConfig {
+  id?: string
+  name: string
+  // arXiv: categories are OR'ed into one query, each search query (raw arXiv search_query
+  // syntax, e.g. `abs:"speculative decoding"`) runs on its own, and papers listed in any
+  // excluded category are dropped from every query
+  categories: string[]
+  searchQueries: string[]
+  excludedCategories: string[]
+  // bioRxiv-family servers to read ('biorxiv', 'medrxiv') and the subject categories to keep
+  biorxivServers: string[]
+  biorxivCategories: string[]
+  // OpenReview venue IDs whose submissions to read, e.g. 'ICLR.cc/2026/Conference'
+  openreviewVenues: string[]
+}
+
+export interface PaperSource {
+  name: string   // ID prefix, e.g. 'arxiv'
+  label: string  // shown in the UI, e.g. 'arXiv'
+  // Recent papers (or those posted within `range`) the profile asks for; [] if it asks for none
+  search(config: SourceConfig, maxResults: number, range?: DateRange): Promise<SourcePaper[]>
+  // Current metadata for specific papers by external ID (missing ones are left out)
+  fetchByIds(externalIds: string[]): Promise<SourcePaper[]>
+  // Body text for reading on the back of the card, or '' when unavailable
+  fetchFullText(externalId: string): Promise<string>
+  // A shorter excerpt of the body to give the extraction prompt, or '' when unavailable
+  fetchExcerpt(externalId: string): Promise<string>
+}
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { getWorkQueue, isRetryable, withRetries } from '@/lib/work-queue'
+
+// An error shaped like the LLM providers' HTTP errors
+const httpError = (status: number, retryAfter?: string) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers: retryAfter ? { 'retry-after': retryAfter } : {} })
+
+// Let pending promise callbacks run so the next timer is scheduled
+const settle = () => new Promise(resolve => setImmediate(resolve))
+
+describe('getWorkQueue', () => {
+  it('runs at most `concurrency` tasks at once, in arrival order', async () => {
+    const queue = getWorkQueue('test-concurrency', 2)
+    const started: number[] = []
+    const releases: (() => void)[] = []
+    const runs = [0, 1, 2, 3].map(i => queue.run(() => new Promise<number>(resolve => {
+      started.push(i)
+      releases.push(() => resolve(i))
+    })))
+
+    await settle()
+    assert.deepEqual(started, [0, 1])
+    assert.equal(queue.active(), 2)
+    assert.equal(queue.waiting(), 2)
+
+    releases[0]()
+    await settle()
+    assert.deepEqual(started, [0, 1, 2])
+
+    releases[1]()
+    releases[2]()
+    await settle()
+    releases[3]()
+    assert.deepEqual(await Promise.all(runs), [0, 1, 2, 3])
+    assert.equal(queue.active(), 0)
+  })
+
+  it('frees the slot when a task throws', async () => {
+    const queue = getWorkQueue('test-throws', 1)
+    await assert.rejects(queue.run(() => Promise.reject(new Error('boom'))), /boom/)
+    assert.equal(await queue.run(async () => 'next'), 'next')
+    assert.equal(queue.active(), 0)
+  })
+})
+
+describe('isRetryable', () => {
+  it('retries rate limits, timeouts, server errors and errors without a status', () => {
+    for (const status of [408, 429, 500, 503]) assert.equal(isRetryable(httpError(status)), true)
+    assert.equal(isRetryable(new Error('socket hang up')), true)
+  })
+
+  it('does not retry other client errors', () => {
+    for (const status of [400, 401, 404]) assert.equal(isRetryable(httpError(status)), false)
+  })
+})
+
+describe('withRetries', () => {
+  it('backs off exponentially and throws after the last retry', async t => {
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+    const log = t.mock.method(console, 'log', () => {})
+    let calls = 0
+    const run = withRetries(async () => {
+      calls++
+      throw httpError(503)
+    }, 'test')
+    const failed = assert.rejects(run, /HTTP 503/)
+
+    for (let i = 0; i < 3; i++) {
+      await settle()
+      t.mock.timers.tick(60000)
+    }
+    await failed
+    assert.equal(calls, 4)
+    const delays = log.mock.calls.map(c => Number(String(c.arguments[0]).match(/retrying in (\d+)ms/)?.[1]))
+    assert.deepEqual(delays, [2000, 4000, 8000])
+  })
+
+  it('waits as long as Retry-After asks, up to a minute', async t => {
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+    const log = t.mock.method(console, 'log', () => {})
+    const errors = [httpError(429, '5'), httpError(429, '3600')]
+    const run = withRetries(async () => {
+      const error = errors.shift()
+      if (error) throw error
+      return 'done'
+    }, 'test')
+
+    for (let i = 0; i < 2; i++) {
+      await settle()
+      t.mock.timers.tick(60000)
+    }
+    assert.equal(await run, 'done')
+    const delays = log.mock.calls.map(c => Number(String(c.arguments[0]).match(/retrying in (\d+)ms/)?.[1]))
+    assert.deepEqual(delays, [5000, 60000])
+  })
+
+  it('does not retry errors that will fail again', async () => {
+    let calls = 0
+    await assert.rejects(withRetries(async () => {
+      calls++
+      throw httpError(400)
+    }, 'test'), /HTTP 400/)
+    assert.equal(calls, 1)
+  })
+})
@@ -0,0 +1,93 @@
+// Bounded concurrency and retries for slow, rate-limited work (paper extraction: an arXiv
+// HTML fetch and an LLM call per paper).
+
+export interface WorkQueue {
+  // Run `task` once fewer than the queue's concurrency are running, in arrival order
+  run<T>(task: () => Promise<T>): Promise<T>
+  active(): number
+  waiting(): number
+}
+
+interface QueueState {
+  active: number
+  waiting: (() => void)[]
+}
+
+// Queue state is shared across module copies (server.ts and the Next.js bundle), as in
+// arxiv-client.ts, so the limit holds for the whole process
+const globalForQueues = globalThis as unknown as { workQueues: Map<string, QueueState> | undefined }
+const queues = globalForQueues.workQueues ??= new Map()
+
+export function getWorkQueue(name: string, concurrency: number): WorkQueue {
+  let state = queues.get(name)
+  if (!state) queues.set(name, state = { active: 0, waiting: [] })
+  const queue = state
+
+  // A finished task hands its slot straight to the next waiting one
+  const release = () => {
+    const next = queue.waiting.shift()
+    if (next) next()
+    else queue.active--
+  }
+
+  return {
+    async run(task) {
+      if (queue.active < concurrency) queue.active++
+      else await new Promise<void>(resolve => queue.waiting.push(resolve))
+      try {
+        return await task()
+      } finally {
+        release()
+      }
+    },
+    active: () => queue.active,
+    waiting: () => queue.waiting.length,
+  }
+}
+
+const MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 2000
+const MAX_BACKOFF_MS = 60000
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// The HTTP status and Retry-After of a failed call, when the error carries them (the OpenAI
+// SDK's errors do, and so do the Anthropic provider's)
+function httpDetails(error: any): { status?: number; retryAfter?: string | null } {
+  const status = typeof error?.status === 'number' ? error.status : undefined
+  const headers = error?.headers
+  const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+  return { status, retryAfter }
+}
+
+// Rate limits, timeouts, server errors, and errors without a status (network failures,
+// unparseable replies) may succeed on another try; other client errors won't
+export function isRetryable(error: unknown): boolean {
+  const { status } = httpDetails(error)
+  return status === undefined || status === 408 || status === 429 || status >= 500
+}
+
+// Retry-After (seconds or an HTTP date) when the server sent one, else exponential backoff
+function retryDelay(error: unknown, attempt: number): number {
+  const { retryAfter } = httpDetails(error)
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+    if (!isNaN(ms)) return Math.min(Math.max(ms, 0), MAX_BACKOFF_MS)
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS)
+}
+
+// Run `task`, retrying retryable failures up to MAX_RETRIES times. Throws the last error.
+export async function withRetries<T>(task: () => Promise<T>, label: string): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task()
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) throw error
+      const delay = retryDelay(error, attempt)
+      console.log(`${label} failed (${(error as Error).message}); retrying in ${delay}ms`)
+      await sleep(delay)
+    }
+  }
+}